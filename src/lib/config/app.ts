@@ -59,7 +59,9 @@ export const APP_CONFIG = {
     pages: 'pages/',
     files: 'files/',
     metadata: 'metadata/',
-    config: 'config/'
+    config: 'config/',
+    templates: 'templates/',
+    locks: 'locks/'
   },
   
   // Default wiki configuration
@@ -4,7 +4,7 @@
  * Implements memory management and prefetching strategies
  */
 
-import type { WikiPageMeta, FileInfo, WikiConfig } from '$lib/types/index.js';
+import type { WikiPageMeta, FileInfo, WikiConfig, SearchIndex } from '$lib/types/index.js';
 
 interface CacheEntry<T> {
   data: T;
@@ -259,6 +259,20 @@ class PageCacheService extends CacheService {
     return this.get<any[]>('page-hierarchy');
   }
 
+  /**
+   * Cache the full-text search index
+   */
+  setSearchIndex(index: SearchIndex): void {
+    this.set('search-index', index, 10 * 60 * 1000);
+  }
+
+  /**
+   * Get cached search index
+   */
+  getSearchIndex(): SearchIndex | null {
+    return this.get<SearchIndex>('search-index');
+  }
+
   /**
    * Invalidate page-related caches
    */
@@ -0,0 +1,81 @@
+/**
+ * Edit Lock Service Tests
+ * Tests for taking, refreshing, breaking and releasing edit locks
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EditLockService } from './editLocks.js';
+import { createEditLock, EDIT_LOCK_TTL } from '../utils/editLocks.js';
+import type { S3Service } from '../types/index.js';
+
+const mockS3Service = {
+  getEditLock: vi.fn(),
+  saveEditLock: vi.fn(),
+  deleteEditLock: vi.fn()
+} as unknown as S3Service;
+
+describe('EditLockService', () => {
+  let editLockService: EditLockService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    editLockService = new EditLockService(mockS3Service);
+    vi.mocked(mockS3Service.getEditLock).mockResolvedValue(null);
+  });
+
+  describe('acquireLock', () => {
+    it('should lock an unlocked page', async () => {
+      const status = await editLockService.acquireLock('a.md', 'alice');
+
+      expect(status.acquired).toBe(true);
+      expect(status.lock).toMatchObject({ path: 'a.md', username: 'alice', sessionId: editLockService.sessionId });
+      expect(mockS3Service.saveEditLock).toHaveBeenCalledWith(status.lock);
+    });
+
+    it('should report the lock of another editor without replacing it', async () => {
+      const lock = createEditLock('a.md', 'bob', 'other-session');
+      vi.mocked(mockS3Service.getEditLock).mockResolvedValue(lock);
+
+      const status = await editLockService.acquireLock('a.md', 'alice');
+
+      expect(status).toEqual({ acquired: false, lock });
+      expect(mockS3Service.saveEditLock).not.toHaveBeenCalled();
+    });
+
+    it('should take over expired locks and refresh its own', async () => {
+      const expired = createEditLock('a.md', 'bob', 'other-session', new Date(Date.now() - EDIT_LOCK_TTL));
+      vi.mocked(mockS3Service.getEditLock).mockResolvedValue(expired);
+      expect((await editLockService.acquireLock('a.md', 'alice')).acquired).toBe(true);
+
+      const own = createEditLock('a.md', 'alice', editLockService.sessionId, new Date(Date.now() - 60_000));
+      vi.mocked(mockS3Service.getEditLock).mockResolvedValue(own);
+      const status = await editLockService.acquireLock('a.md', 'alice');
+
+      expect(status.acquired).toBe(true);
+      expect(status.lock.acquiredAt).toEqual(own.acquiredAt);
+    });
+  });
+
+  describe('breakLock', () => {
+    it('should replace the lock of another editor', async () => {
+      vi.mocked(mockS3Service.getEditLock).mockResolvedValue(createEditLock('a.md', 'bob', 'other-session'));
+
+      const status = await editLockService.breakLock('a.md', 'admin');
+
+      expect(status.acquired).toBe(true);
+      expect(mockS3Service.saveEditLock).toHaveBeenCalledWith(expect.objectContaining({ username: 'admin' }));
+    });
+  });
+
+  describe('releaseLock', () => {
+    it('should only remove locks held by this session', async () => {
+      vi.mocked(mockS3Service.getEditLock).mockResolvedValue(createEditLock('a.md', 'bob', 'other-session'));
+      await editLockService.releaseLock('a.md');
+      expect(mockS3Service.deleteEditLock).not.toHaveBeenCalled();
+
+      vi.mocked(mockS3Service.getEditLock).mockResolvedValue(createEditLock('a.md', 'alice', editLockService.sessionId));
+      await editLockService.releaseLock('a.md');
+      expect(mockS3Service.deleteEditLock).toHaveBeenCalledWith('a.md');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Edit Lock Service
+ * Advisory locks under `locks/` telling editors who else is editing a page.
+ * Locks never block saving; conflicting saves are still caught by the page ETag.
+ */
+
+import type { EditLock, EditLockStatus, S3Service } from '../types/index.js';
+import { s3Service } from './s3.js';
+import { createEditLock, isLockedByOther } from '../utils/editLocks.js';
+import { generateSecureId } from '../utils/security.js';
+
+/**
+ * Edit Lock Service implementation
+ */
+export class EditLockService {
+  // Identifies the editors of this browser tab
+  readonly sessionId = generateSecureId();
+  private s3Service: S3Service;
+
+  constructor(s3Service: S3Service) {
+    this.s3Service = s3Service;
+  }
+
+  /**
+   * Take or refresh the lock of a page, unless another editor holds it.
+   * Called when the editor opens and on every heartbeat.
+   */
+  async acquireLock(path: string, username: string): Promise<EditLockStatus> {
+    const current = await this.s3Service.getEditLock(path);
+    if (isLockedByOther(current, this.sessionId)) {
+      return { acquired: false, lock: current };
+    }
+
+    return this.writeLock(path, username, current);
+  }
+
+  /**
+   * Take over the lock of another editor, e.g. one left behind by a closed browser
+   */
+  async breakLock(path: string, username: string): Promise<EditLockStatus> {
+    return this.writeLock(path, username, await this.s3Service.getEditLock(path));
+  }
+
+  /**
+   * Remove the lock of a page if this session holds it
+   */
+  async releaseLock(path: string): Promise<void> {
+    const current = await this.s3Service.getEditLock(path);
+    if (current && current.sessionId === this.sessionId) {
+      await this.s3Service.deleteEditLock(path);
+    }
+  }
+
+  private async writeLock(path: string, username: string, current: EditLock | null): Promise<EditLockStatus> {
+    const lock = createEditLock(path, username, this.sessionId, new Date(), current);
+    await this.s3Service.saveEditLock(lock);
+    return { acquired: true, lock };
+  }
+}
+
+// Export singleton instance
+export const editLockService = new EditLockService(s3Service);
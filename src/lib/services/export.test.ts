@@ -0,0 +1,153 @@
+/**
+ * Export Service Tests
+ * Tests for the contents and progress of wiki ZIP exports
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { ExportService, type ExportProgress } from './export.js';
+import type { S3Service, WikiService } from '../types/index.js';
+import { resolveWikiLinkTarget } from '../utils/wikiLinks.js';
+
+// DOMPurify needs a browser DOM
+vi.mock('../utils/security.js', () => ({ sanitizeHTML: (html: string) => html }));
+
+// Mock S3 Service
+const mockS3Service: S3Service = {
+  getPage: vi.fn(),
+  savePage: vi.fn(),
+  copyPage: vi.fn(),
+  deletePage: vi.fn(),
+  listPages: vi.fn(),
+  listPageVersions: vi.fn(),
+  getPageVersion: vi.fn(),
+  uploadFile: vi.fn(),
+  deleteFile: vi.fn(),
+  listFiles: vi.fn(),
+  getFileUrl: vi.fn(),
+  getFileContent: vi.fn(),
+  getConfig: vi.fn(),
+  saveConfig: vi.fn(),
+  listTemplates: vi.fn(),
+  getTemplate: vi.fn(),
+  saveTemplate: vi.fn(),
+  deleteTemplate: vi.fn(),
+  getEditLock: vi.fn(),
+  saveEditLock: vi.fn(),
+  deleteEditLock: vi.fn(),
+  updateMetadata: vi.fn(),
+  getMetadataObjects: vi.fn(),
+  getLinkGraph: vi.fn(),
+  updateLinkGraph: vi.fn(),
+  getSearchIndex: vi.fn(),
+  updateSearchIndex: vi.fn()
+};
+
+const mockWikiService = { getPageHierarchy: vi.fn(), getWikiLinkResolver: vi.fn() } as unknown as WikiService;
+
+const created = new Date('2026-01-01T00:00:00.000Z');
+
+describe('ExportService', () => {
+  let exportService: ExportService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    exportService = new ExportService(mockS3Service, mockWikiService);
+
+    vi.mocked(mockS3Service.listPages).mockResolvedValue([
+      { path: 'index.md', title: 'Home', createdAt: created, updatedAt: created, author: 'alice' },
+      { path: 'docs/broken.md', title: 'Broken', createdAt: created, updatedAt: created, author: 'alice' }
+    ]);
+    vi.mocked(mockS3Service.getPage).mockImplementation(async path => {
+      if (path !== 'index.md') throw new Error('Access denied');
+      return {
+        path,
+        title: 'Home',
+        content: '# Home\n',
+        metadata: { createdAt: created, updatedAt: created, author: 'alice', version: 2 }
+      };
+    });
+    vi.mocked(mockS3Service.listFiles).mockResolvedValue([
+      { id: 'abc-logo.png', filename: 'logo.png', size: 3, contentType: 'image/png', uploadedAt: created, url: 'https://x' }
+    ]);
+    vi.mocked(mockS3Service.getFileContent).mockResolvedValue(new Uint8Array([1, 2, 3]));
+    vi.mocked(mockS3Service.getConfig).mockResolvedValue({ title: 'Wiki' } as any);
+    vi.mocked(mockS3Service.getMetadataObjects).mockResolvedValue({ 'pages.json': '{"pages":[]}' });
+    vi.mocked(mockWikiService.getPageHierarchy).mockResolvedValue([
+      { path: 'index.md', title: 'Home', isFolder: false }
+    ]);
+    vi.mocked(mockWikiService.getWikiLinkResolver).mockImplementation(async () => {
+      const pages = await mockS3Service.listPages();
+      return (target, fromPath) => resolveWikiLinkTarget(target, pages, fromPath);
+    });
+  });
+
+  it('should package pages, files, config and metadata', async () => {
+    const result = await exportService.exportWiki();
+    const entries = unzipSync(new Uint8Array(await result.blob.arrayBuffer()));
+
+    expect(Object.keys(entries).sort()).toEqual([
+      'config/wiki.json',
+      'files/abc-logo.png',
+      'marks3-export.json',
+      'metadata/pages.json',
+      'pages/index.md'
+    ]);
+    expect(strFromU8(entries['pages/index.md'])).toContain('author: alice\nversion: 2\n---\n\n# Home\n');
+    expect([...entries['files/abc-logo.png']]).toEqual([1, 2, 3]);
+
+    const manifest = JSON.parse(strFromU8(entries['marks3-export.json']));
+    expect(manifest.pages).toEqual(['index.md']);
+    expect(manifest.files[0]).not.toHaveProperty('url');
+  });
+
+  it('should report failures and progress', async () => {
+    const progress: ExportProgress[] = [];
+
+    const result = await exportService.exportWiki(update => progress.push(update));
+
+    expect(result.failed).toEqual(['pages/docs/broken.md']);
+    expect(result.pageCount).toBe(1);
+    expect(result.fileCount).toBe(1);
+    expect(progress.map(update => update.phase)).toEqual([
+      'listing',
+      'pages',
+      'pages',
+      'files',
+      'metadata',
+      'compressing'
+    ]);
+    expect(progress[progress.length - 1]).toMatchObject({ completed: 5, total: 5 });
+  });
+
+  describe('exportStaticSite', () => {
+    it('should render pages with resolved links, copied files and a search index', async () => {
+      vi.mocked(mockS3Service.getPage).mockImplementation(async path => ({
+        path,
+        title: 'Home',
+        content: '# Home\n\n[[Broken]] [[Missing page]]\n\n![Logo](https://x) [logo](files/abc-logo.png)\n',
+        metadata: { createdAt: created, updatedAt: created, author: 'alice', version: 2 }
+      }));
+
+      const result = await exportService.exportStaticSite();
+      const entries = unzipSync(new Uint8Array(await result.blob.arrayBuffer()));
+
+      expect(Object.keys(entries).sort()).toEqual([
+        'assets/files/abc-logo.png',
+        'assets/search-index.js',
+        'assets/search.js',
+        'assets/site.css',
+        'docs/broken.html',
+        'index.html'
+      ]);
+
+      const home = strFromU8(entries['index.html']);
+      expect(home).toContain('<a href="docs/broken.html" class="wiki-link">Broken</a>');
+      expect(home).toContain('<span class="wiki-link wiki-link-new">Missing page</span>');
+      expect(home).toContain('<img src="assets/files/abc-logo.png" alt="Logo">');
+      expect(home).toContain('<a href="assets/files/abc-logo.png">logo</a>');
+      expect(strFromU8(entries['assets/search-index.js'])).toContain('"url":"docs/broken.html"');
+      expect(result).toMatchObject({ pageCount: 2, fileCount: 1, failed: [] });
+    });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Export Service Implementation
+ * Packages the whole wiki into a ZIP archive in the browser for backups and migrations
+ */
+
+import { strToU8, type AsyncZippable } from 'fflate';
+import type { S3Service, WikiService } from '../types/index.js';
+import { WikiError, ErrorCodes } from '../types/index.js';
+import { s3Service } from './s3.js';
+import { wikiService } from './wiki.js';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_PATHS,
+  addMetadataFrontMatter,
+  createZip,
+  isCompressedContentType,
+  type ArchiveManifest
+} from '../utils/archive.js';
+import { renderMarkdown } from '../utils/markdown.js';
+import { markdownToPlainText } from '../utils/searchIndex.js';
+import {
+  SITE_PATHS,
+  SITE_SEARCH_SCRIPT,
+  SITE_STYLESHEET,
+  createSiteSearchIndex,
+  renderSiteHome,
+  renderSiteNavigation,
+  renderSitePage,
+  rewriteSiteLinks,
+  sitePageUrl,
+  type SiteSearchEntry
+} from '../utils/staticSite.js';
+
+export interface ExportProgress {
+  phase: 'listing' | 'pages' | 'files' | 'metadata' | 'compressing';
+  // Items finished out of the total across all phases
+  completed: number;
+  total: number;
+  // Page or file being downloaded
+  current?: string;
+}
+
+export interface WikiExportResult {
+  blob: Blob;
+  filename: string;
+  pageCount: number;
+  fileCount: number;
+  // Pages and files that could not be downloaded and are missing from the archive
+  failed: string[];
+}
+
+/**
+ * Export Service implementation
+ */
+export class ExportService {
+  private s3Service: S3Service;
+  private wikiService: WikiService;
+
+  constructor(s3Service: S3Service, wikiService: WikiService) {
+    this.s3Service = s3Service;
+    this.wikiService = wikiService;
+  }
+
+  /**
+   * Export all pages, uploaded files, the wiki configuration and the metadata indexes.
+   * Pages and files that fail to download are skipped and listed in the result.
+   */
+  async exportWiki(onProgress?: (progress: ExportProgress) => void): Promise<WikiExportResult> {
+    try {
+      onProgress?.({ phase: 'listing', completed: 0, total: 0 });
+      const [pages, files] = await Promise.all([this.s3Service.listPages(), this.s3Service.listFiles()]);
+
+      const entries: AsyncZippable = {};
+      const failed: string[] = [];
+      const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        exportedAt: new Date().toISOString(),
+        pages: [],
+        files: []
+      };
+
+      // Config and metadata count as one step each
+      const total = pages.length + files.length + 2;
+      let completed = 0;
+
+      for (const meta of pages) {
+        onProgress?.({ phase: 'pages', completed, total, current: meta.path });
+        try {
+          const page = await this.s3Service.getPage(meta.path);
+          entries[ARCHIVE_PATHS.pages + meta.path] = strToU8(addMetadataFrontMatter(page));
+          manifest.pages.push(meta.path);
+        } catch (error) {
+          console.warn(`Failed to export page ${meta.path}:`, error);
+          failed.push(ARCHIVE_PATHS.pages + meta.path);
+        }
+        completed++;
+      }
+
+      for (const file of files) {
+        onProgress?.({ phase: 'files', completed, total, current: file.filename });
+        try {
+          const content = await this.s3Service.getFileContent(file.id);
+          entries[ARCHIVE_PATHS.files + file.id] = isCompressedContentType(file.contentType)
+            ? [content, { level: 0 }]
+            : content;
+          manifest.files.push({
+            id: file.id,
+            filename: file.filename,
+            size: file.size,
+            contentType: file.contentType,
+            uploadedAt: file.uploadedAt
+          });
+        } catch (error) {
+          console.warn(`Failed to export file ${file.id}:`, error);
+          failed.push(ARCHIVE_PATHS.files + file.id);
+        }
+        completed++;
+      }
+
+      onProgress?.({ phase: 'metadata', completed, total });
+      const config = await this.s3Service.getConfig();
+      entries[ARCHIVE_PATHS.config + 'wiki.json'] = strToU8(JSON.stringify(config, null, 2));
+      completed++;
+
+      const metadata = await this.s3Service.getMetadataObjects();
+      for (const [name, content] of Object.entries(metadata)) {
+        entries[ARCHIVE_PATHS.metadata + name] = strToU8(content);
+      }
+      completed++;
+
+      entries[ARCHIVE_PATHS.manifest] = strToU8(JSON.stringify(manifest, null, 2));
+
+      onProgress?.({ phase: 'compressing', completed, total });
+      const data = await createZip(entries);
+
+      return {
+        // fflate output is always backed by a plain ArrayBuffer
+        blob: new Blob([data as BlobPart], { type: 'application/zip' }),
+        filename: `marks3-export-${manifest.exportedAt.slice(0, 10)}.zip`,
+        pageCount: manifest.pages.length,
+        fileCount: manifest.files.length,
+        failed
+      };
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to export wiki: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Export the wiki as a static HTML site that can be hosted anywhere without sign-in.
+   * Every page is rendered with the navigation sidebar, links point to the published pages,
+   * uploaded files are copied into the site and a search index is generated for client-side search.
+   */
+  async exportStaticSite(onProgress?: (progress: ExportProgress) => void): Promise<WikiExportResult> {
+    try {
+      onProgress?.({ phase: 'listing', completed: 0, total: 0 });
+      const [pages, files, hierarchy, resolveWikiLink, config] = await Promise.all([
+        this.s3Service.listPages(),
+        this.s3Service.listFiles(),
+        this.wikiService.getPageHierarchy(),
+        this.wikiService.getWikiLinkResolver(),
+        this.s3Service.getConfig()
+      ]);
+
+      const entries: AsyncZippable = {};
+      const failed: string[] = [];
+      const searchEntries: SiteSearchEntry[] = [];
+      const total = pages.length + files.length;
+      let completed = 0;
+
+      // Copy files first so pages can link to the files that made it into the site
+      const fileUrls: Record<string, string> = {};
+      // files/<id> references render with the file URL, which is then pointed at the copy
+      const urlsById = new Map(files.map(file => [file.id, file.url]));
+      const resolveFileUrl = (fileId: string) => urlsById.get(fileId) ?? null;
+      for (const file of files) {
+        onProgress?.({ phase: 'files', completed, total, current: file.filename });
+        try {
+          const content = await this.s3Service.getFileContent(file.id);
+          entries[SITE_PATHS.files + file.id] = isCompressedContentType(file.contentType)
+            ? [content, { level: 0 }]
+            : content;
+          fileUrls[file.url] = SITE_PATHS.files + file.id;
+        } catch (error) {
+          console.warn(`Failed to export file ${file.id}:`, error);
+          failed.push(file.id);
+        }
+        completed++;
+      }
+
+      for (const meta of pages) {
+        onProgress?.({ phase: 'pages', completed, total, current: meta.path });
+        try {
+          const page = await this.s3Service.getPage(meta.path);
+          const html = rewriteSiteLinks(
+            renderMarkdown(page.content, { resolveWikiLink, resolveFileUrl, currentPath: page.path }),
+            page.path,
+            fileUrls
+          );
+          const document = renderSitePage(
+            config.title,
+            { path: page.path, title: page.title, html, updatedAt: page.metadata.updatedAt, author: page.metadata.author },
+            renderSiteNavigation(hierarchy, page.path)
+          );
+
+          entries[sitePageUrl(page.path)] = strToU8(document);
+          searchEntries.push({ url: sitePageUrl(page.path), title: page.title, text: markdownToPlainText(page.content) });
+        } catch (error) {
+          console.warn(`Failed to export page ${meta.path}:`, error);
+          failed.push(meta.path);
+        }
+        completed++;
+      }
+
+      // Without a home page the site opens on the navigation
+      if (!entries['index.html']) {
+        entries['index.html'] = strToU8(renderSiteHome(config.title, hierarchy));
+      }
+
+      entries[SITE_PATHS.stylesheet] = strToU8(SITE_STYLESHEET);
+      entries[SITE_PATHS.script] = strToU8(SITE_SEARCH_SCRIPT);
+      entries[SITE_PATHS.searchIndex] = strToU8(createSiteSearchIndex(searchEntries));
+
+      onProgress?.({ phase: 'compressing', completed, total });
+      const data = await createZip(entries);
+
+      return {
+        // fflate output is always backed by a plain ArrayBuffer
+        blob: new Blob([data as BlobPart], { type: 'application/zip' }),
+        filename: `marks3-site-${new Date().toISOString().slice(0, 10)}.zip`,
+        pageCount: searchEntries.length,
+        fileCount: Object.keys(fileUrls).length,
+        failed
+      };
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to export site: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService(s3Service, wikiService);
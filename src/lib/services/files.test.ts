@@ -12,15 +12,31 @@ import type { S3Service, WikiService, FileInfo } from '../types/index.js';
 const mockS3Service: S3Service = {
   getPage: vi.fn(),
   savePage: vi.fn(),
+  copyPage: vi.fn(),
   deletePage: vi.fn(),
   listPages: vi.fn(),
+  listPageVersions: vi.fn(),
+  getPageVersion: vi.fn(),
   uploadFile: vi.fn(),
   deleteFile: vi.fn(),
   listFiles: vi.fn(),
   getFileUrl: vi.fn(),
+  getFileContent: vi.fn(),
   getConfig: vi.fn(),
   saveConfig: vi.fn(),
-  updateMetadata: vi.fn()
+  listTemplates: vi.fn(),
+  getTemplate: vi.fn(),
+  saveTemplate: vi.fn(),
+  deleteTemplate: vi.fn(),
+  getEditLock: vi.fn(),
+  saveEditLock: vi.fn(),
+  deleteEditLock: vi.fn(),
+  updateMetadata: vi.fn(),
+  getMetadataObjects: vi.fn(),
+  getLinkGraph: vi.fn(),
+  updateLinkGraph: vi.fn(),
+  getSearchIndex: vi.fn(),
+  updateSearchIndex: vi.fn()
 };
 
 // Mock Wiki Service
@@ -28,17 +44,36 @@ const mockWikiService: WikiService = {
   createPage: vi.fn(),
   updatePage: vi.fn(),
   getPage: vi.fn(),
+  getPageWithRedirects: vi.fn(),
   deletePage: vi.fn(),
+  movePage: vi.fn(),
+  createFolder: vi.fn(),
+  moveFolder: vi.fn(),
+  deleteFolder: vi.fn(),
+  validateFolderDeletion: vi.fn(),
   searchPages: vi.fn(),
   getPageHierarchy: vi.fn(),
   getPageAttachments: vi.fn(),
+  listPageVersions: vi.fn(),
+  getPageVersion: vi.fn(),
+  restorePageVersion: vi.fn(),
+  resolveWikiLink: vi.fn(),
+  getWikiLinkResolver: vi.fn(),
+  getBacklinks: vi.fn(),
+  rebuildLinkGraph: vi.fn(),
   searchPagesInFolder: vi.fn(),
   getPagesByTag: vi.fn(),
   getAllTags: vi.fn(),
+  rebuildSearchIndex: vi.fn(),
+  getTemplates: vi.fn(),
+  saveTemplate: vi.fn(),
+  deleteTemplate: vi.fn(),
   findAllOrphanedFiles: vi.fn(),
   deleteOrphanedFiles: vi.fn(),
   getPagesReferencingFile: vi.fn(),
-  validatePageDeletion: vi.fn()
+  validatePageDeletion: vi.fn(),
+  syncOutbox: vi.fn(),
+  resolveOutboxConflict: vi.fn()
 };
 
 describe('FileService', () => {
@@ -13,6 +13,9 @@ import { WikiError, ErrorCodes } from '../types/index.js';
 import { APP_CONFIG } from '../config/app.js';
 import { s3Service } from './s3.js';
 import { fileCache, prefetchService } from './cache.js';
+import { offlineStore } from './offline.js';
+import { isOnline } from '../utils/awsErrorHandler.js';
+import type { FileUrlResolver } from '../utils/fileReferences.js';
 
 /**
  * File Service implementation
@@ -135,20 +138,34 @@ export class FileService implements IFileService {
 
   /**
    * List all uploaded files with metadata
+   * While offline the list stored when it was last loaded is returned
    */
   async listFiles(): Promise<FileInfo[]> {
+    if (!isOnline()) {
+      return this.getOfflineFileList();
+    }
+
     try {
       // Try to get files from metadata index first
       const metadataFiles = await this.getFilesFromMetadata();
-      
-      if (metadataFiles.length > 0) {
-        return metadataFiles;
-      }
 
       // Fallback to S3 listing if metadata is empty
-      return await this.s3Service.listFiles();
+      const files = metadataFiles.length > 0 ? metadataFiles : await this.s3Service.listFiles();
+
+      try {
+        await offlineStore.saveFileList(files);
+      } catch (storeError) {
+        console.warn('Failed to store the file list for offline use:', storeError);
+      }
+      return files;
     } catch (error) {
       if (error instanceof WikiError) {
+        if (error.code === ErrorCodes.NETWORK_ERROR) {
+          const stored = await offlineStore.getFileList();
+          if (stored) {
+            return stored;
+          }
+        }
         throw error;
       }
       throw new WikiError(
@@ -244,6 +261,14 @@ export class FileService implements IFileService {
     }
   }
 
+  /**
+   * Get a synchronous resolver from file ids to URLs, for `files/<id>` references while rendering
+   */
+  async getFileUrlResolver(): Promise<FileUrlResolver> {
+    const urls = new Map((await this.listFiles()).map(file => [file.id, file.url]));
+    return fileId => urls.get(fileId) ?? null;
+  }
+
   /**
    * Get file information by ID
    */
@@ -446,6 +471,20 @@ export class FileService implements IFileService {
     }
   }
 
+  /**
+   * The file list stored when it was last loaded, for reading while offline
+   */
+  private async getOfflineFileList(): Promise<FileInfo[]> {
+    const stored = await offlineStore.getFileList();
+    if (!stored) {
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        'The file list is not available offline'
+      );
+    }
+    return stored;
+  }
+
   /**
    * Update file metadata index
    */
@@ -0,0 +1,94 @@
+/**
+ * Import Service Tests
+ * Tests for reading archives and committing imports
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { ImportService } from './import.js';
+import type { FileService, S3Service, WikiService } from '../types/index.js';
+
+const mockS3Service = { listPages: vi.fn() } as unknown as S3Service;
+const mockWikiService = { createPage: vi.fn(), updatePage: vi.fn() } as unknown as WikiService;
+const mockFileService = { uploadFile: vi.fn() } as unknown as FileService;
+
+const created = new Date('2026-01-01T00:00:00.000Z');
+
+describe('ImportService', () => {
+  let importService: ImportService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    importService = new ImportService(mockS3Service, mockWikiService, mockFileService);
+
+    vi.mocked(mockS3Service.listPages).mockResolvedValue([
+      { path: 'Existing.md', title: 'Existing', createdAt: created, updatedAt: created, author: 'alice' }
+    ]);
+    vi.mocked(mockFileService.uploadFile).mockImplementation(async file => ({
+      id: `1-${file.name}`,
+      filename: file.name,
+      size: file.size,
+      contentType: file.type,
+      uploadedAt: created,
+      url: `https://bucket/files/1-${file.name}`
+    }));
+  });
+
+  async function readVault() {
+    const archive = zipSync({
+      'vault/Home.md': strToU8('# Home\n\n![[logo.png]]'),
+      'vault/Existing.md': strToU8('![](img/other.png)'),
+      'vault/img/logo.png': new Uint8Array([1]),
+      'vault/img/other.png': new Uint8Array([2]),
+      'vault/.obsidian/app.json': strToU8('{}')
+    });
+    return importService.readZip(new Blob([archive]));
+  }
+
+  it('should read a ZIP archive without its wrapping folder', async () => {
+    const sources = await readVault();
+
+    expect(sources.map(source => source.path).sort()).toEqual([
+      'Existing.md',
+      'Home.md',
+      'img/logo.png',
+      'img/other.png'
+    ]);
+  });
+
+  it('should skip existing pages and their attachments', async () => {
+    const sources = await readVault();
+    const plan = await importService.planImport(sources);
+
+    const result = await importService.importWiki(sources, plan, { conflicts: 'skip' });
+
+    expect(result).toEqual({
+      created: ['Home.md'],
+      updated: [],
+      skipped: ['Existing.md'],
+      uploadedFiles: 1,
+      failed: []
+    });
+    expect(mockWikiService.createPage).toHaveBeenCalledWith(
+      'Home.md',
+      '# Home\n\n![logo.png](files/1-logo.png)'
+    );
+    expect(mockWikiService.updatePage).not.toHaveBeenCalled();
+  });
+
+  it('should overwrite existing pages and report failures', async () => {
+    vi.mocked(mockWikiService.createPage).mockRejectedValue(new Error('Access denied'));
+    const sources = await readVault();
+    const plan = await importService.planImport(sources);
+
+    const result = await importService.importWiki(sources, plan, { conflicts: 'overwrite' });
+
+    expect(result.updated).toEqual(['Existing.md']);
+    expect(result.uploadedFiles).toBe(2);
+    expect(result.failed).toEqual([{ path: 'Home.md', error: 'Access denied' }]);
+    expect(mockWikiService.updatePage).toHaveBeenCalledWith(
+      'Existing.md',
+      '![](files/1-other.png)'
+    );
+  });
+});
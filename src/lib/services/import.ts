@@ -0,0 +1,178 @@
+/**
+ * Import Service Implementation
+ * Brings Markdown folders, ZIP archives and Obsidian vaults into the wiki as pages and attachments
+ */
+
+import { unzipSync } from 'fflate';
+import type { FileService, S3Service, WikiService } from '../types/index.js';
+import { WikiError, ErrorCodes } from '../types/index.js';
+import { s3Service } from './s3.js';
+import { wikiService } from './wiki.js';
+import { fileService } from './files.js';
+import {
+  importContentType,
+  normalizeImportSources,
+  planImport,
+  rewriteImportReferences,
+  type ImportPlan,
+  type ImportPlanOptions,
+  type ImportSource
+} from '../utils/importPlan.js';
+import { fileReference } from '../utils/fileReferences.js';
+
+export interface ImportOptions {
+  // What to do with pages that already exist: keep them, or replace their content
+  conflicts: 'skip' | 'overwrite';
+}
+
+export interface ImportProgress {
+  phase: 'files' | 'pages';
+  // Items finished out of the total across both phases
+  completed: number;
+  total: number;
+  // Page or file being imported
+  current?: string;
+}
+
+export interface WikiImportResult {
+  created: string[];
+  updated: string[];
+  // Existing pages left untouched
+  skipped: string[];
+  uploadedFiles: number;
+  // Pages and files that could not be imported, by source path
+  failed: Array<{ path: string; error: string }>;
+}
+
+/**
+ * Import Service implementation
+ */
+export class ImportService {
+  private s3Service: S3Service;
+  private wikiService: WikiService;
+  private fileService: FileService;
+
+  constructor(s3Service: S3Service, wikiService: WikiService, fileService: FileService) {
+    this.s3Service = s3Service;
+    this.wikiService = wikiService;
+    this.fileService = fileService;
+  }
+
+  /**
+   * Read the files of a ZIP archive
+   */
+  async readZip(file: Blob): Promise<ImportSource[]> {
+    try {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+      return normalizeImportSources(Object.entries(entries).map(([path, data]) => ({ path, data })));
+    } catch (error) {
+      throw new WikiError(
+        ErrorCodes.INVALID_FILE_TYPE,
+        `Failed to read ZIP archive: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Read the files of a folder picked with a directory input
+   */
+  async readFiles(files: File[]): Promise<ImportSource[]> {
+    const sources = await Promise.all(
+      files.map(async file => ({
+        path: file.webkitRelativePath || file.name,
+        data: new Uint8Array(await file.arrayBuffer())
+      }))
+    );
+    return normalizeImportSources(sources);
+  }
+
+  /**
+   * Dry run: work out the pages and attachments an import creates and the existing pages it conflicts with
+   */
+  async planImport(sources: ImportSource[], options: ImportPlanOptions = {}): Promise<ImportPlan> {
+    try {
+      const pages = await this.s3Service.listPages();
+      return planImport(sources, pages, options);
+    } catch (error) {
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to plan import: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Upload the attachments of a plan, then create or update its pages with their references rewritten.
+   * Items that fail are listed in the result and the import carries on.
+   */
+  async importWiki(
+    sources: ImportSource[],
+    plan: ImportPlan,
+    options: ImportOptions,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<WikiImportResult> {
+    const data = new Map(sources.map(source => [source.path, source.data]));
+    const result: WikiImportResult = { created: [], updated: [], skipped: [], uploadedFiles: 0, failed: [] };
+    const pages = plan.pages.filter(page => {
+      if (page.conflict && options.conflicts === 'skip') {
+        result.skipped.push(page.path);
+        return false;
+      }
+      return true;
+    });
+
+    // Attachments only referenced by skipped pages are not uploaded
+    const assets = plan.assets.filter(asset => asset.referencedBy.some(path => !result.skipped.includes(path)));
+    const total = assets.length + pages.length;
+    let completed = 0;
+
+    const fileUrls: Record<string, string> = {};
+    for (const asset of assets) {
+      onProgress?.({ phase: 'files', completed, total, current: asset.sourcePath });
+      try {
+        const name = asset.sourcePath.split('/').pop()!;
+        const file = new File([data.get(asset.sourcePath) as BlobPart], name, {
+          type: importContentType(name)
+        });
+        const info = await this.fileService.uploadFile(file);
+        fileUrls[asset.sourcePath] = fileReference(info.id);
+        result.uploadedFiles++;
+      } catch (error) {
+        result.failed.push({ path: asset.sourcePath, error: errorMessage(error) });
+      }
+      completed++;
+    }
+
+    for (const page of pages) {
+      onProgress?.({ phase: 'pages', completed, total, current: page.path });
+      try {
+        const content = rewriteImportReferences(
+          new TextDecoder().decode(data.get(page.sourcePath)),
+          page.sourcePath,
+          plan,
+          fileUrls
+        );
+
+        if (page.conflict) {
+          await this.wikiService.updatePage(page.path, content);
+          result.updated.push(page.path);
+        } else {
+          await this.wikiService.createPage(page.path, content);
+          result.created.push(page.path);
+        }
+      } catch (error) {
+        result.failed.push({ path: page.sourcePath, error: errorMessage(error) });
+      }
+      completed++;
+    }
+
+    return result;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// Export singleton instance
+export const importService = new ImportService(s3Service, wikiService, fileService);
@@ -0,0 +1,177 @@
+/**
+ * Offline Store
+ * Persists pages, the page list, file metadata and the outbox of queued page changes
+ * in IndexedDB so the wiki stays readable and editable without a connection.
+ * Also keeps the editor drafts used to recover unsaved changes.
+ */
+
+import type { WikiPage, WikiPageMeta, FileInfo, OutboxEntry, PageDraft } from '../types/index.js';
+
+const DB_NAME = 'marks3-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'records';
+
+// Record keys; pages and drafts are stored under `page:<path>` and `draft:<path>`
+const KEYS = {
+  pageList: 'pageList',
+  fileList: 'fileList',
+  outbox: 'outbox',
+  page: (path: string) => `page:${path}`,
+  draft: (path: string) => `draft:${path}`
+};
+
+type OutboxListener = (outbox: OutboxEntry[]) => void;
+
+/**
+ * Key-value records in IndexedDB, kept in memory where IndexedDB is unavailable (SSR, tests)
+ */
+export class OfflineStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, unknown>();
+  private listeners = new Set<OutboxListener>();
+
+  async getPage(path: string): Promise<WikiPage | null> {
+    return this.get<WikiPage>(KEYS.page(path));
+  }
+
+  async savePage(page: WikiPage): Promise<void> {
+    await this.put(KEYS.page(page.path), page);
+  }
+
+  async removePage(path: string): Promise<void> {
+    await this.delete(KEYS.page(path));
+  }
+
+  async getPageList(): Promise<WikiPageMeta[] | null> {
+    return this.get<WikiPageMeta[]>(KEYS.pageList);
+  }
+
+  async savePageList(pages: WikiPageMeta[]): Promise<void> {
+    await this.put(KEYS.pageList, pages);
+  }
+
+  async getFileList(): Promise<FileInfo[] | null> {
+    return this.get<FileInfo[]>(KEYS.fileList);
+  }
+
+  async saveFileList(files: FileInfo[]): Promise<void> {
+    await this.put(KEYS.fileList, files);
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    return (await this.get<OutboxEntry[]>(KEYS.outbox)) ?? [];
+  }
+
+  async saveOutbox(outbox: OutboxEntry[]): Promise<void> {
+    await this.put(KEYS.outbox, outbox);
+    this.listeners.forEach(listener => listener(outbox));
+  }
+
+  async getDraft(path: string): Promise<PageDraft | null> {
+    return this.get<PageDraft>(KEYS.draft(path));
+  }
+
+  async saveDraft(draft: PageDraft): Promise<void> {
+    await this.put(KEYS.draft(draft.path), draft);
+  }
+
+  async removeDraft(path: string): Promise<void> {
+    await this.delete(KEYS.draft(path));
+  }
+
+  /**
+   * Remove all offline data, including changes not synced yet
+   */
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) {
+      this.memory.clear();
+    } else {
+      await this.request(db, 'readwrite', store => store.clear());
+    }
+    this.listeners.forEach(listener => listener([]));
+  }
+
+  /**
+   * Call `listener` whenever the outbox changes; returns the unsubscribe function
+   */
+  onOutboxChange(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async get<T>(key: string): Promise<T | null> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return (this.memory.get(key) as T | undefined) ?? null;
+    }
+    const result = await this.request<T | undefined>(db, 'readonly', store => store.get(key));
+    return result ?? null;
+  }
+
+  private async put(key: string, value: unknown): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) {
+      this.memory.set(key, value);
+      return;
+    }
+    await this.request(db, 'readwrite', store => store.put(value, key));
+  }
+
+  private async delete(key: string): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) {
+      this.memory.delete(key);
+      return;
+    }
+    await this.request(db, 'readwrite', store => store.delete(key));
+  }
+
+  private request<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Open the database once; resolves to null when IndexedDB cannot be used
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        try {
+          const request = indexedDB.open(DB_NAME, DB_VERSION);
+          request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+              request.result.createObjectStore(STORE_NAME);
+            }
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            console.warn('IndexedDB is unavailable, offline data is kept in memory:', request.error);
+            resolve(null);
+          };
+        } catch (error) {
+          // Opening throws in some private browsing modes
+          console.warn('IndexedDB is unavailable, offline data is kept in memory:', error);
+          resolve(null);
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Export singleton instance
+export const offlineStore = new OfflineStore();
@@ -93,6 +93,20 @@ describe('S3Service', () => {
       expect(metadata.tags).toEqual(['tag1', 'tag2', 'tag3']);
     });
 
+    it('should round-trip tags and aliases containing commas and non-ASCII characters', () => {
+      const tags = ['a,b', '日本語', '"quoted"'];
+      const aliases = ['Q&A', '50%'];
+
+      const metadata = (s3Service as any).parsePageMetadata({
+        'tags': (s3Service as any).encodeMetadataList(tags),
+        'aliases': (s3Service as any).encodeMetadataList(aliases)
+      });
+
+      expect(metadata.tags).toEqual(tags);
+      expect(metadata.aliases).toEqual(aliases);
+      expect((s3Service as any).encodeMetadataList(tags)).toMatch(/^[\x21-\x7e]+$/);
+    });
+
     it('should handle missing metadata gracefully', () => {
       const metadata = (s3Service as any).parsePageMetadata({});
       
@@ -7,12 +7,15 @@ import {
   S3Client,
   GetObjectCommand,
   PutObjectCommand,
+  CopyObjectCommand,
   DeleteObjectCommand,
   ListObjectsV2Command,
+  ListObjectVersionsCommand,
   HeadObjectCommand,
   type GetObjectCommandOutput,
   type PutObjectCommandOutput,
-  type ListObjectsV2CommandOutput
+  type ListObjectsV2CommandOutput,
+  type ObjectVersion
 } from '@aws-sdk/client-s3';
 import { fromCognitoIdentityPool } from '@aws-sdk/credential-providers';
 import type {
@@ -22,13 +25,23 @@ import type {
   WikiConfig,
   FileInfo,
   SaveResult,
-  MetadataOperation
+  MetadataOperation,
+  LinkGraph,
+  SearchIndex,
+  PageVersion,
+  EditLock
 } from '../types/index.js';
 import { WikiError, ErrorCodes } from '../types/index.js';
 import { getAWSConfig, APP_CONFIG } from '../config/app.js';
 import { executeWithRetry, AWSService, createUserFriendlyError } from '../utils/awsErrorHandler.js';
 import { monitoringService } from './monitoring.js';
 import { browserRequestHandlerConfig } from '../config/browserHttpHandler.js';
+import { applyLinkChanges } from '../utils/linkGraph.js';
+import { applySearchIndexChanges, createSearchIndex, SEARCH_INDEX_FORMAT } from '../utils/searchIndex.js';
+import { parseEditLock } from '../utils/editLocks.js';
+
+// Revisions whose stored metadata is read in parallel when listing page history
+const VERSION_METADATA_BATCH_SIZE = 10;
 
 /**
  * S3 Service implementation
@@ -174,7 +187,8 @@ export class S3Service implements IS3Service {
         'author': updatedMetadata.author,
         'version': updatedMetadata.version.toString(),
         'title': page.title,
-        ...(updatedMetadata.tags && { 'tags': updatedMetadata.tags.join(',') })
+        ...(updatedMetadata.tags && { 'tags': this.encodeMetadataList(updatedMetadata.tags) }),
+        ...(updatedMetadata.aliases && { 'aliases': this.encodeMetadataList(updatedMetadata.aliases) })
       };
 
       const putCommand = new PutObjectCommand({
@@ -197,11 +211,19 @@ export class S3Service implements IS3Service {
           createdAt: updatedMetadata.createdAt,
           updatedAt: updatedMetadata.updatedAt,
           author: updatedMetadata.author,
-          tags: updatedMetadata.tags
+          tags: updatedMetadata.tags,
+          aliases: updatedMetadata.aliases
         },
         expectedVersion: etag
       });
 
+      // The page is already saved, so a stale search index is only logged
+      try {
+        await this.updateSearchIndex({ [page.path]: page.content });
+      } catch (indexError) {
+        console.warn(`Failed to update search index for ${page.path}:`, indexError);
+      }
+
       // Track successful file operation
       const duration = performance.now() - startTime;
       monitoringService.trackFileOperation(true, duration);
@@ -242,37 +264,98 @@ export class S3Service implements IS3Service {
   }
 
   /**
-   * Delete a wiki page from S3 with retry logic
+   * Copy a page object to a new path, keeping its content and object metadata.
+   * The copy is rejected if the source changed since `page` was loaded.
    */
-  async deletePage(path: string): Promise<void> {
-    return executeWithRetry(async () => {
+  async copyPage(page: WikiPage, to: string): Promise<SaveResult> {
+    try {
+      const sourceKey = APP_CONFIG.s3Paths.pages + page.path;
+      const command = new CopyObjectCommand({
+        Bucket: this.bucketName,
+        Key: APP_CONFIG.s3Paths.pages + to,
+        CopySource: `${this.bucketName}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`,
+        MetadataDirective: 'COPY',
+        ...(page.etag && { CopySourceIfMatch: `"${page.etag}"` })
+      });
+
+      const response = await this.s3Client.send(command);
+
+      await this.updateMetadata({
+        type: 'update',
+        pageData: {
+          path: to,
+          title: page.title,
+          createdAt: page.metadata.createdAt,
+          updatedAt: page.metadata.updatedAt,
+          author: page.metadata.author,
+          tags: page.metadata.tags,
+          aliases: page.metadata.aliases
+        }
+      });
+
+      try {
+        await this.updateSearchIndex({ [to]: page.content });
+      } catch (indexError) {
+        console.warn(`Failed to update search index for ${to}:`, indexError);
+      }
+
+      return {
+        success: true,
+        etag: response.CopyObjectResult?.ETag?.replace(/"/g, '') || '',
+        conflict: false
+      };
+    } catch (error: any) {
+      if (error.name === 'PreconditionFailed' || error.code === 'PreconditionFailed') {
+        return { success: false, etag: '', conflict: true };
+      }
+      throw this.handleS3Error(error);
+    }
+  }
+
+  /**
+   * Delete a wiki page from S3 with retry logic.
+   * With an ETag, the delete is rejected with EDIT_CONFLICT if the page changed since it was read.
+   */
+  async deletePage(path: string, etag?: string): Promise<void> {
+    await executeWithRetry(async () => {
       const key = APP_CONFIG.s3Paths.pages + path;
       const command = new DeleteObjectCommand({
         Bucket: this.bucketName,
-        Key: key
+        Key: key,
+        ...(etag && { IfMatch: `"${etag}"` })
       });
 
       await this.s3Client.send(command);
     }, AWSService.S3);
+
+    try {
+      await this.updateSearchIndex({ [path]: null });
+    } catch (indexError) {
+      console.warn(`Failed to update search index for ${path}:`, indexError);
+    }
   }
 
   /**
-   * List wiki pages with optional prefix filter and retry logic
+   * List wiki pages with optional prefix filter and retry logic.
+   * Pages in sub-folders are included, so a prefix lists a whole subtree.
    */
   async listPages(prefix?: string): Promise<WikiPageMeta[]> {
     return executeWithRetry(async () => {
       const key = APP_CONFIG.s3Paths.pages + (prefix || '');
-      const command = new ListObjectsV2Command({
-        Bucket: this.bucketName,
-        Prefix: key,
-        Delimiter: '/'
-      });
-
-      const response = await this.s3Client.send(command);
       const pages: WikiPageMeta[] = [];
+      let continuationToken: string | undefined;
 
-      if (response.Contents) {
-        for (const object of response.Contents) {
+      do {
+        const command = new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: key,
+          ContinuationToken: continuationToken
+        });
+
+        const response = await this.s3Client.send(command);
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+
+        for (const object of response.Contents || []) {
           if (object.Key && object.Key.endsWith('.md')) {
             const path = object.Key.replace(APP_CONFIG.s3Paths.pages, '');
             
@@ -291,7 +374,8 @@ export class S3Service implements IS3Service {
                 createdAt: metadata.createdAt,
                 updatedAt: metadata.updatedAt,
                 author: metadata.author,
-                tags: metadata.tags
+                tags: metadata.tags,
+                aliases: metadata.aliases
               });
             } catch (error) {
               // If we can't get metadata, create basic entry
@@ -306,12 +390,86 @@ export class S3Service implements IS3Service {
             }
           }
         }
-      }
+      } while (continuationToken);
 
       return pages;
     }, AWSService.S3);
   }
 
+  /**
+   * List stored revisions of a wiki page (newest first) using S3 object versions.
+   * The author and version number stored with each revision are read in batches of
+   * parallel HEAD requests per page of the listing.
+   */
+  async listPageVersions(path: string): Promise<PageVersion[]> {
+    return executeWithRetry(async () => {
+      const key = APP_CONFIG.s3Paths.pages + path;
+      const versions: PageVersion[] = [];
+      let keyMarker: string | undefined;
+      let versionIdMarker: string | undefined;
+
+      do {
+        const command = new ListObjectVersionsCommand({
+          Bucket: this.bucketName,
+          Prefix: key,
+          KeyMarker: keyMarker,
+          VersionIdMarker: versionIdMarker
+        });
+
+        const response = await this.s3Client.send(command);
+
+        // The prefix also matches longer keys such as "page.md.bak"
+        const listed = (response.Versions || []).filter(
+          objectVersion => objectVersion.Key === key && objectVersion.VersionId
+        );
+
+        for (let i = 0; i < listed.length; i += VERSION_METADATA_BATCH_SIZE) {
+          const batch = listed.slice(i, i + VERSION_METADATA_BATCH_SIZE);
+          versions.push(...await Promise.all(batch.map(objectVersion => this.readPageVersion(path, objectVersion))));
+        }
+
+        keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+        versionIdMarker = response.IsTruncated ? response.NextVersionIdMarker : undefined;
+      } while (keyMarker);
+
+      return versions;
+    }, AWSService.S3);
+  }
+
+  /**
+   * Get a specific revision of a wiki page
+   */
+  async getPageVersion(path: string, versionId: string): Promise<WikiPage> {
+    return executeWithRetry(async () => {
+      const key = APP_CONFIG.s3Paths.pages + path;
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        VersionId: versionId
+      });
+
+      const response = await this.s3Client.send(command);
+
+      if (!response.Body) {
+        throw new WikiError(
+          'PAGE_NOT_FOUND' as ErrorCodes,
+          `Page version not found: ${path} (${versionId})`
+        );
+      }
+
+      const content = await this.streamToString(response.Body);
+      const metadata = this.parsePageMetadata(response.Metadata || {});
+
+      return {
+        path,
+        title: response.Metadata?.['title'] || this.extractTitleFromPath(path),
+        content,
+        metadata,
+        etag: response.ETag?.replace(/"/g, '')
+      };
+    }, AWSService.S3);
+  }
+
   /**
    * Upload a file to S3 with validation and retry logic
    */
@@ -415,6 +573,25 @@ export class S3Service implements IS3Service {
     }, AWSService.S3);
   }
 
+  /**
+   * Download the content of an uploaded file
+   */
+  async getFileContent(path: string): Promise<Uint8Array> {
+    return executeWithRetry(async () => {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: APP_CONFIG.s3Paths.files + path
+      });
+
+      const response = await this.s3Client.send(command);
+      if (!response.Body) {
+        throw new WikiError(ErrorCodes.FILE_NOT_FOUND, `File not found: ${path}`);
+      }
+
+      return this.streamToBytes(response.Body);
+    }, AWSService.S3);
+  }
+
   /**
    * Get a URL for file access with proper CORS handling
    */
@@ -532,6 +709,118 @@ export class S3Service implements IS3Service {
     }, AWSService.S3);
   }
 
+  /**
+   * List the ids of the page templates, i.e. their file names without .md
+   */
+  async listTemplates(): Promise<string[]> {
+    return executeWithRetry(async () => {
+      const ids: string[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const command = new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: APP_CONFIG.s3Paths.templates,
+          ContinuationToken: continuationToken
+        });
+
+        const response = await this.s3Client.send(command);
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+
+        for (const object of response.Contents || []) {
+          const name = object.Key?.slice(APP_CONFIG.s3Paths.templates.length);
+          if (name && name.endsWith('.md') && !name.includes('/')) {
+            ids.push(name.slice(0, -3));
+          }
+        }
+      } while (continuationToken);
+
+      return ids.sort();
+    }, AWSService.S3);
+  }
+
+  /**
+   * Get the source of a page template
+   */
+  async getTemplate(id: string): Promise<string> {
+    return executeWithRetry(async () => {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: `${APP_CONFIG.s3Paths.templates}${id}.md`
+      });
+
+      const response = await this.s3Client.send(command);
+      return response.Body ? this.streamToString(response.Body) : '';
+    }, AWSService.S3);
+  }
+
+  /**
+   * Create or replace a page template
+   */
+  async saveTemplate(id: string, content: string): Promise<void> {
+    return executeWithRetry(async () => {
+      const command = new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: `${APP_CONFIG.s3Paths.templates}${id}.md`,
+        Body: content,
+        ContentType: 'text/markdown'
+      });
+
+      await this.s3Client.send(command);
+    }, AWSService.S3);
+  }
+
+  /**
+   * Delete a page template
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    return executeWithRetry(async () => {
+      const command = new DeleteObjectCommand({
+        Bucket: this.bucketName,
+        Key: `${APP_CONFIG.s3Paths.templates}${id}.md`
+      });
+
+      await this.s3Client.send(command);
+    }, AWSService.S3);
+  }
+
+  /**
+   * Get the edit lock of a page, or null if nobody locked it
+   */
+  async getEditLock(path: string): Promise<EditLock | null> {
+    return parseEditLock(await this.getJsonObject<unknown>(this.getEditLockKey(path)));
+  }
+
+  /**
+   * Write the edit lock of a page, replacing the current one
+   */
+  async saveEditLock(lock: EditLock): Promise<void> {
+    return executeWithRetry(async () => {
+      const command = new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: this.getEditLockKey(lock.path),
+        Body: JSON.stringify(lock),
+        ContentType: 'application/json'
+      });
+
+      await this.s3Client.send(command);
+    }, AWSService.S3);
+  }
+
+  /**
+   * Remove the edit lock of a page
+   */
+  async deleteEditLock(path: string): Promise<void> {
+    return executeWithRetry(async () => {
+      const command = new DeleteObjectCommand({
+        Bucket: this.bucketName,
+        Key: this.getEditLockKey(path)
+      });
+
+      await this.s3Client.send(command);
+    }, AWSService.S3);
+  }
+
   /**
    * Update metadata atomically with optimistic locking
    */
@@ -630,12 +919,206 @@ export class S3Service implements IS3Service {
     }
   }
 
+  /**
+   * Get the link graph, or null if it has not been built yet
+   */
+  async getLinkGraph(): Promise<LinkGraph | null> {
+    return this.getJsonObject<LinkGraph>(APP_CONFIG.s3Paths.metadata + 'links.json');
+  }
+
+  /**
+   * Update outgoing links of one or more pages with optimistic locking.
+   * With `replace`, the stored graph is discarded and rebuilt from the changes alone;
+   * without it, a missing graph is left for a full rebuild to create, like the search index.
+   */
+  async updateLinkGraph(changes: Record<string, string[] | null>, replace = false): Promise<void> {
+    await this.updateJsonObject<LinkGraph>(
+      APP_CONFIG.s3Paths.metadata + 'links.json',
+      replace ? () => ({ links: {}, version: 1 }) : null,
+      graph => ({
+        links: applyLinkChanges(replace ? {} : graph.links, changes),
+        version: (graph.version || 1) + 1
+      }),
+      'Failed to update link graph after multiple attempts due to conflicts'
+    );
+  }
+
+  /**
+   * Get the stored metadata indexes (page list, link graph, search index) as written, keyed by file name
+   */
+  async getMetadataObjects(): Promise<Record<string, string>> {
+    return executeWithRetry(async () => {
+      const objects: Record<string, string> = {};
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await this.s3Client.send(new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: APP_CONFIG.s3Paths.metadata,
+          ContinuationToken: continuationToken
+        }));
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+
+        for (const object of response.Contents || []) {
+          const name = object.Key?.slice(APP_CONFIG.s3Paths.metadata.length);
+          if (!name) continue;
+
+          const content = await this.s3Client.send(new GetObjectCommand({
+            Bucket: this.bucketName,
+            Key: object.Key
+          }));
+          objects[name] = content.Body ? await this.streamToString(content.Body) : '';
+        }
+      } while (continuationToken);
+
+      return objects;
+    }, AWSService.S3);
+  }
+
+  /**
+   * Get the full-text search index, or null if it has not been built yet
+   */
+  async getSearchIndex(): Promise<SearchIndex | null> {
+    return this.getJsonObject<SearchIndex>(APP_CONFIG.s3Paths.metadata + 'search-index.json');
+  }
+
+  /**
+   * Index (content) or unindex (null) pages with optimistic locking.
+   * With `replace`, the stored index is discarded and rebuilt from the changes alone.
+   * Without it, a missing index is left missing: an index created from a single page
+   * would look complete, so only a full rebuild creates it.
+   */
+  async updateSearchIndex(changes: Record<string, string | null>, replace = false): Promise<void> {
+    await this.updateJsonObject<SearchIndex>(
+      APP_CONFIG.s3Paths.metadata + 'search-index.json',
+      replace ? createSearchIndex : null,
+      stored => {
+        const index = replace ? { ...createSearchIndex(), version: stored.version } : stored;
+        // An index in an older format is rebuilt by the client instead of being patched
+        if (index.format !== SEARCH_INDEX_FORMAT) {
+          return index;
+        }
+        applySearchIndexChanges(index, changes);
+        index.version = (index.version || 1) + 1;
+        return index;
+      },
+      'Failed to update search index after multiple attempts due to conflicts'
+    );
+  }
+
   // Helper methods
 
+  /**
+   * Locks are stored as JSON next to where the page would be, e.g. locks/docs/page.md.json
+   */
+  private getEditLockKey(path: string): string {
+    return `${APP_CONFIG.s3Paths.locks}${path}.json`;
+  }
+
+  /**
+   * Read a JSON object, or null if it does not exist
+   */
+  private async getJsonObject<T>(key: string): Promise<T | null> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key
+      });
+
+      const response = await this.s3Client.send(command);
+      if (!response.Body) {
+        return null;
+      }
+
+      return JSON.parse(await this.streamToString(response.Body));
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey' || error.name === 'NotFound') {
+        return null;
+      }
+      throw this.handleS3Error(error);
+    }
+  }
+
+  /**
+   * Read-modify-write a JSON object, retrying when another client changed it in between.
+   * A missing object is created from `createEmpty`, or left missing when it is null.
+   */
+  private async updateJsonObject<T>(
+    key: string,
+    createEmpty: (() => T) | null,
+    apply: (current: T) => T,
+    conflictMessage: string
+  ): Promise<void> {
+    const maxRetries = 3;
+    let retryCount = 0;
+
+    while (retryCount < maxRetries) {
+      try {
+        // Get current object with ETag
+        let current: T | null = null;
+        let currentETag: string | undefined;
+
+        try {
+          const getCommand = new GetObjectCommand({
+            Bucket: this.bucketName,
+            Key: key
+          });
+          const response = await this.s3Client.send(getCommand);
+
+          if (response.Body) {
+            current = JSON.parse(await this.streamToString(response.Body));
+            currentETag = response.ETag?.replace(/"/g, '');
+          }
+        } catch (error: any) {
+          if (error.name !== 'NoSuchKey' && error.name !== 'NotFound') {
+            throw error;
+          }
+        }
+
+        if (current === null) {
+          if (!createEmpty) {
+            return;
+          }
+          // Object doesn't exist yet, it is created by this update
+          current = createEmpty();
+        }
+
+        const saveCommand = new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Body: JSON.stringify(apply(current)),
+          ContentType: 'application/json',
+          ...(currentETag && { IfMatch: `"${currentETag}"` })
+        });
+
+        await this.s3Client.send(saveCommand);
+        return;
+
+      } catch (error: any) {
+        if (error.name === 'PreconditionFailed' || error.code === 'PreconditionFailed') {
+          retryCount++;
+          if (retryCount >= maxRetries) {
+            throw new WikiError(ErrorCodes.EDIT_CONFLICT, conflictMessage);
+          }
+          await new Promise(resolve => setTimeout(resolve, 100 * retryCount));
+          continue;
+        }
+        throw this.handleS3Error(error);
+      }
+    }
+  }
+
   /**
    * Convert stream to string
    */
   private async streamToString(stream: any): Promise<string> {
+    return new TextDecoder().decode(await this.streamToBytes(stream));
+  }
+
+  /**
+   * Read a response body stream into a byte array
+   */
+  private async streamToBytes(stream: any): Promise<Uint8Array> {
     const chunks: Uint8Array[] = [];
     const reader = stream.getReader();
     
@@ -656,7 +1139,34 @@ export class S3Service implements IS3Service {
       offset += chunk.length;
     }
 
-    return new TextDecoder().decode(concatenated);
+    return concatenated;
+  }
+
+  /**
+   * Describe a listed revision with the author and version number stored with it
+   */
+  private async readPageVersion(path: string, objectVersion: ObjectVersion): Promise<PageVersion> {
+    const revision = {
+      versionId: objectVersion.VersionId!,
+      path,
+      size: objectVersion.Size || 0,
+      isLatest: !!objectVersion.IsLatest,
+      etag: objectVersion.ETag?.replace(/"/g, '')
+    };
+
+    try {
+      const headResponse = await this.s3Client.send(new HeadObjectCommand({
+        Bucket: this.bucketName,
+        Key: objectVersion.Key,
+        VersionId: objectVersion.VersionId
+      }));
+      const metadata = this.parsePageMetadata(headResponse.Metadata || {});
+      return { ...revision, version: metadata.version, author: metadata.author, updatedAt: metadata.updatedAt };
+    } catch (error) {
+      // If we can't get metadata, create basic entry
+      console.warn(`Failed to get metadata for ${path} version ${objectVersion.VersionId}:`, error);
+      return { ...revision, version: 0, author: 'unknown', updatedAt: objectVersion.LastModified || new Date() };
+    }
   }
 
   /**
@@ -668,10 +1178,38 @@ export class S3Service implements IS3Service {
       updatedAt: new Date(metadata['updated-at'] || Date.now()),
       author: metadata['author'] || 'unknown',
       version: parseInt(metadata['version'] || '1'),
-      tags: metadata['tags'] ? metadata['tags'].split(',') : undefined
+      tags: this.decodeMetadataList(metadata['tags']),
+      aliases: this.decodeMetadataList(metadata['aliases'])
     };
   }
 
+  /**
+   * Encode a list for S3 object metadata, which only carries ASCII header values.
+   * Items may contain commas, so the list is stored as URI-encoded JSON.
+   */
+  private encodeMetadataList(items: string[]): string {
+    return encodeURIComponent(JSON.stringify(items));
+  }
+
+  /**
+   * Decode a list written by encodeMetadataList, or a comma separated list written by older versions
+   */
+  private decodeMetadataList(value: string | undefined): string[] | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      const items = JSON.parse(decodeURIComponent(value));
+      if (Array.isArray(items) && items.every(item => typeof item === 'string')) {
+        return items;
+      }
+    } catch {
+      // Not encoded, fall back to the comma separated format
+    }
+    return value.split(',');
+  }
+
   /**
    * Extract title from file path
    */
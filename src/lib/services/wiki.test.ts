@@ -7,27 +7,55 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { WikiService } from './wiki.js';
 import { WikiError, ErrorCodes } from '../types/index.js';
 import type { S3Service, WikiPage, WikiPageMeta } from '../types/index.js';
+import { pageCache } from './cache.js';
+import { offlineStore } from './offline.js';
+import { applySearchIndexChanges, createSearchIndex } from '../utils/searchIndex.js';
+import { isOnline } from '../utils/awsErrorHandler.js';
+
+vi.mock('../utils/awsErrorHandler.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/awsErrorHandler.js')>()),
+  isOnline: vi.fn(() => true)
+}));
 
 // Mock S3 Service
 const mockS3Service: S3Service = {
   getPage: vi.fn(),
   savePage: vi.fn(),
+  copyPage: vi.fn(),
   deletePage: vi.fn(),
   listPages: vi.fn(),
+  listPageVersions: vi.fn(),
+  getPageVersion: vi.fn(),
   uploadFile: vi.fn(),
   deleteFile: vi.fn(),
   listFiles: vi.fn(),
   getFileUrl: vi.fn(),
+  getFileContent: vi.fn(),
   getConfig: vi.fn(),
   saveConfig: vi.fn(),
-  updateMetadata: vi.fn()
+  listTemplates: vi.fn(),
+  getTemplate: vi.fn(),
+  saveTemplate: vi.fn(),
+  deleteTemplate: vi.fn(),
+  getEditLock: vi.fn(),
+  saveEditLock: vi.fn(),
+  deleteEditLock: vi.fn(),
+  updateMetadata: vi.fn(),
+  getMetadataObjects: vi.fn(),
+  getLinkGraph: vi.fn(),
+  updateLinkGraph: vi.fn(),
+  getSearchIndex: vi.fn(),
+  updateSearchIndex: vi.fn()
 };
 
 describe('WikiService', () => {
   let wikiService: WikiService;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks();
+    vi.mocked(isOnline).mockReturnValue(true);
+    pageCache.clear();
+    await offlineStore.clear();
     wikiService = new WikiService(mockS3Service);
   });
 
@@ -56,6 +84,38 @@ describe('WikiService', () => {
       expect(result.metadata.version).toBe(1);
     });
 
+    it('should read title and properties from the front matter', async () => {
+      const content = [
+        '---',
+        'title: Runbook',
+        'tags: [ops, oncall]',
+        'aliases: [Playbook]',
+        'owner: alice',
+        '---',
+        '',
+        '```sh',
+        '# not a title',
+        '```',
+        'tags: not metadata'
+      ].join('\n');
+
+      vi.mocked(mockS3Service.getPage).mockRejectedValue(
+        new WikiError(ErrorCodes.BUCKET_NOT_FOUND, 'Page not found')
+      );
+      vi.mocked(mockS3Service.savePage).mockResolvedValue({
+        success: true,
+        etag: 'test-etag'
+      });
+
+      const result = await wikiService.createPage('runbook.md', content);
+
+      expect(result.title).toBe('Runbook');
+      expect(result.content).toBe(content);
+      expect(result.metadata.tags).toEqual(['ops', 'oncall']);
+      expect(result.metadata.aliases).toEqual(['Playbook']);
+      expect(result.metadata.customFields).toEqual({ owner: 'alice' });
+    });
+
     it('should throw error if page already exists', async () => {
       const path = 'existing-page.md';
       const content = '# Existing Page';
@@ -155,6 +215,351 @@ describe('WikiService', () => {
         .rejects
         .toThrow(WikiError);
     });
+
+    it('should report a conflict when the page changed since it was loaded', async () => {
+      const path = 'test-page.md';
+
+      const serverPage: WikiPage = {
+        path,
+        title: 'Test Page',
+        content: 'Someone else\'s content',
+        metadata: {
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          author: 'other',
+          version: 2
+        },
+        etag: 'server-etag'
+      };
+
+      vi.mocked(mockS3Service.getPage).mockResolvedValue(serverPage);
+
+      await expect(wikiService.updatePage(path, 'My content', 'loaded-etag'))
+        .rejects
+        .toMatchObject({ code: 'EDIT_CONFLICT', details: serverPage });
+      expect(mockS3Service.savePage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPage', () => {
+    it('should report missing pages as PAGE_NOT_FOUND', async () => {
+      vi.mocked(mockS3Service.getPage).mockRejectedValue(
+        new WikiError(
+          ErrorCodes.BUCKET_NOT_FOUND,
+          'The requested file or page was not found.',
+          { name: 'NoSuchKey' }
+        )
+      );
+
+      await expect(wikiService.getPage('missing-page.md'))
+        .rejects
+        .toMatchObject({ code: 'PAGE_NOT_FOUND' });
+    });
+  });
+
+  describe('wiki links', () => {
+    it('should resolve link targets against the page list', async () => {
+      pageCache.invalidatePageCaches();
+      vi.mocked(mockS3Service.listPages).mockResolvedValue([
+        {
+          path: 'docs/setup.md',
+          title: 'Setup Guide',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          author: 'test'
+        }
+      ]);
+
+      expect(await wikiService.resolveWikiLink('Setup Guide')).toBe('docs/setup.md');
+      expect(await wikiService.resolveWikiLink('setup', 'docs/index.md')).toBe('docs/setup.md');
+      expect(await wikiService.resolveWikiLink('Missing')).toBeNull();
+    });
+  });
+
+  describe('backlinks', () => {
+    const pages: WikiPageMeta[] = [
+      { path: 'a.md', title: 'Page A', createdAt: new Date(), updatedAt: new Date(), author: 'test' },
+      { path: 'b.md', title: 'Page B', createdAt: new Date(), updatedAt: new Date(), author: 'test' },
+      { path: 'c.md', title: 'Page C', createdAt: new Date(), updatedAt: new Date(), author: 'test' }
+    ];
+
+    beforeEach(() => {
+      pageCache.invalidatePageCaches();
+      vi.mocked(mockS3Service.listPages).mockResolvedValue(pages);
+    });
+
+    it('should return pages linking to the given page', async () => {
+      vi.mocked(mockS3Service.getLinkGraph).mockResolvedValue({
+        links: { 'a.md': ['b.md'], 'c.md': ['a.md', 'b.md'] }
+      });
+
+      const backlinks = await wikiService.getBacklinks('b.md');
+
+      expect(backlinks.map(page => page.path)).toEqual(['a.md', 'c.md']);
+      expect(mockS3Service.getPage).not.toHaveBeenCalled();
+    });
+
+    it('should build the graph from page content when it does not exist yet', async () => {
+      vi.mocked(mockS3Service.getLinkGraph).mockResolvedValue(null);
+      vi.mocked(mockS3Service.updateLinkGraph).mockResolvedValue();
+      vi.mocked(mockS3Service.getPage).mockImplementation(async path => ({
+        path,
+        title: path,
+        content: path === 'a.md' ? 'See [[Page B]]' : 'No links',
+        metadata: { createdAt: new Date(), updatedAt: new Date(), author: 'test', version: 1 }
+      }));
+
+      const backlinks = await wikiService.getBacklinks('b.md');
+
+      expect(backlinks.map(page => page.path)).toEqual(['a.md']);
+      expect(mockS3Service.updateLinkGraph).toHaveBeenCalledWith({ 'a.md': ['b.md'], 'b.md': [], 'c.md': [] }, true);
+    });
+
+    it('should return backlinks from a rebuilt graph that cannot be stored', async () => {
+      vi.mocked(mockS3Service.getLinkGraph).mockResolvedValue(null);
+      vi.mocked(mockS3Service.updateLinkGraph).mockRejectedValue(
+        new WikiError(ErrorCodes.S3_ACCESS_DENIED, 'Access denied')
+      );
+      vi.mocked(mockS3Service.getPage).mockImplementation(async path => ({
+        path,
+        title: path,
+        content: path === 'c.md' ? 'See [[Page B]]' : 'No links',
+        metadata: { createdAt: new Date(), updatedAt: new Date(), author: 'test', version: 1 }
+      }));
+
+      const backlinks = await wikiService.getBacklinks('b.md');
+
+      expect(backlinks.map(page => page.path)).toEqual(['c.md']);
+    });
+
+    it('should record outgoing links when a page is saved', async () => {
+      vi.mocked(mockS3Service.getPage).mockResolvedValue({
+        path: 'a.md',
+        title: 'Page A',
+        content: '# Page A',
+        metadata: { createdAt: new Date(), updatedAt: new Date(), author: 'test', version: 1 },
+        etag: 'etag'
+      });
+      vi.mocked(mockS3Service.savePage).mockResolvedValue({ success: true, etag: 'new-etag' });
+      vi.mocked(mockS3Service.updateLinkGraph).mockResolvedValue();
+
+      await wikiService.updatePage('a.md', '# Page A\n\nSee [[Page C]] and [b](b.md)');
+
+      expect(mockS3Service.updateLinkGraph).toHaveBeenCalledWith({ 'a.md': ['b.md', 'c.md'] });
+    });
+  });
+
+  describe('moving pages and folders', () => {
+    let store: Map<string, WikiPage>;
+
+    function addPage(path: string, content: string) {
+      store.set(path, {
+        path,
+        title: path,
+        content,
+        metadata: { createdAt: new Date(), updatedAt: new Date(), author: 'test', version: 1 },
+        etag: `etag-${path}`
+      });
+    }
+
+    beforeEach(() => {
+      store = new Map();
+      addPage('docs/setup.md', '# Setup\n\nBack to [[index]].');
+      addPage('index.md', 'See [[docs/setup]] and [setup](docs/setup.md).');
+
+      vi.mocked(mockS3Service.getPage).mockImplementation(async path => {
+        const page = store.get(path);
+        if (!page) throw new WikiError(ErrorCodes.BUCKET_NOT_FOUND, `Page not found: ${path}`, { name: 'NoSuchKey' });
+        return page;
+      });
+      vi.mocked(mockS3Service.savePage).mockImplementation(async page => {
+        store.set(page.path, page);
+        return { success: true, etag: `saved-${page.path}` };
+      });
+      vi.mocked(mockS3Service.copyPage).mockImplementation(async (page, to) => {
+        store.set(to, { ...page, path: to, etag: `copied-${to}` });
+        return { success: true, etag: `copied-${to}` };
+      });
+      vi.mocked(mockS3Service.deletePage).mockImplementation(async (path, etag) => {
+        if (etag && store.get(path)?.etag !== etag) {
+          throw new WikiError(ErrorCodes.EDIT_CONFLICT, 'The resource has been modified by another user.');
+        }
+        store.delete(path);
+      });
+      vi.mocked(mockS3Service.listPages).mockImplementation(async prefix =>
+        [...store.values()].filter(page => page.path.startsWith(prefix || '')).map(page => ({
+          path: page.path,
+          title: page.title,
+          createdAt: page.metadata.createdAt,
+          updatedAt: page.metadata.updatedAt,
+          author: page.metadata.author,
+          aliases: page.metadata.aliases
+        }))
+      );
+      vi.mocked(mockS3Service.listFiles).mockResolvedValue([]);
+      vi.mocked(mockS3Service.getLinkGraph).mockResolvedValue({
+        links: { 'index.md': ['docs/setup.md'], 'docs/setup.md': ['index.md'] }
+      });
+    });
+
+    it('should move the page and rewrite links to it', async () => {
+      const result = await wikiService.movePage('docs/setup.md', 'guides/install.md');
+
+      expect(result.page.path).toBe('guides/install.md');
+      expect(result.updatedPages).toEqual(['index.md']);
+      expect(result.failedPages).toEqual([]);
+      expect(store.has('docs/setup.md')).toBe(false);
+      expect(store.get('index.md')!.content).toBe(
+        'See [[/guides/install|docs/setup]] and [setup](guides/install.md).'
+      );
+      expect(mockS3Service.copyPage).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'docs/setup.md' }),
+        'guides/install.md'
+      );
+    });
+
+    it('should leave a redirect stub at the old path when asked to', async () => {
+      await wikiService.movePage('docs/setup.md', 'setup.md', { leaveRedirect: true });
+
+      expect(store.get('docs/setup.md')!.content).toBe(
+        '---\nredirect_to: setup.md\n---\n\nThis page has moved to [[/setup|Setup]].\n'
+      );
+    });
+
+    it('should follow redirects from the old path', async () => {
+      await wikiService.movePage('docs/setup.md', 'setup.md', { leaveRedirect: true });
+
+      const result = await wikiService.getPageWithRedirects('docs/setup.md');
+
+      expect(result.page.path).toBe('setup.md');
+      expect(result.redirects).toEqual(['docs/setup.md']);
+      expect(result.loop).toBe(false);
+    });
+
+    it('should stop at redirect loops', async () => {
+      addPage('a.md', '---\nredirect_to: b.md\n---\nA');
+      addPage('b.md', '---\nredirect_to: /a\n---\nB');
+
+      const result = await wikiService.getPageWithRedirects('a.md');
+
+      expect(result.page.path).toBe('b.md');
+      expect(result.redirects).toEqual(['a.md']);
+      expect(result.loop).toBe(true);
+    });
+
+    it('should resolve missing paths through page aliases', async () => {
+      store.get('index.md')!.metadata.aliases = ['old/home'];
+
+      const result = await wikiService.getPageWithRedirects('old/home.md');
+
+      expect(result.page.path).toBe('index.md');
+      expect(result.redirects).toEqual(['old/home.md']);
+      await expect(wikiService.getPageWithRedirects('old/missing.md')).rejects.toThrow('Page not found');
+    });
+
+    it('should refuse to overwrite an existing page', async () => {
+      await expect(wikiService.movePage('docs/setup.md', 'index.md')).rejects.toThrow('Page already exists');
+      expect(mockS3Service.copyPage).not.toHaveBeenCalled();
+    });
+
+    it('should move a whole folder', async () => {
+      addPage('docs/faq.md', 'See [setup](setup.md).');
+
+      const result = await wikiService.moveFolder('docs', 'guides/docs');
+
+      expect(result.pages.map(page => page.path).sort()).toEqual(['guides/docs/faq.md', 'guides/docs/setup.md']);
+      expect([...store.keys()].sort()).toEqual(['guides/docs/faq.md', 'guides/docs/setup.md', 'index.md']);
+      expect(store.get('guides/docs/faq.md')!.content).toBe('See [setup](setup.md).');
+      expect(store.get('guides/docs/setup.md')!.content).toBe('# Setup\n\nBack to [[index]].');
+      expect(store.get('index.md')!.content).toBe(
+        'See [[/guides/docs/setup|docs/setup]] and [setup](guides/docs/setup.md).'
+      );
+    });
+
+    it('should remove the pages already copied when a later copy fails', async () => {
+      addPage('docs/faq.md', 'FAQ');
+      vi.mocked(mockS3Service.copyPage).mockImplementation(async (page, to) => {
+        if (page.path === 'docs/faq.md') {
+          return { success: false, etag: '', conflict: true };
+        }
+        store.set(to, { ...page, path: to, etag: `copied-${to}` });
+        return { success: true, etag: `copied-${to}` };
+      });
+
+      await expect(wikiService.moveFolder('docs', 'guides')).rejects.toMatchObject({
+        code: ErrorCodes.EDIT_CONFLICT
+      });
+      expect(mockS3Service.copyPage).toHaveBeenCalledTimes(2);
+      expect([...store.keys()].sort()).toEqual(['docs/faq.md', 'docs/setup.md', 'index.md']);
+    });
+
+    it('should keep pages edited during a folder move at their old path', async () => {
+      addPage('docs/faq.md', 'See [setup](setup.md).');
+      addPage('notes.md', 'Read the [[docs/faq]] and [[docs/setup]].');
+      vi.mocked(mockS3Service.getLinkGraph).mockResolvedValue({
+        links: { 'index.md': ['docs/setup.md'], 'notes.md': ['docs/faq.md', 'docs/setup.md'] }
+      });
+      vi.mocked(mockS3Service.copyPage).mockImplementation(async (page, to) => {
+        store.set(to, { ...page, path: to, etag: `copied-${to}` });
+        // Someone edits the FAQ while the folder is being copied
+        if (page.path === 'docs/faq.md') {
+          store.set(page.path, { ...page, content: 'Edited', etag: 'edited' });
+        }
+        return { success: true, etag: `copied-${to}` };
+      });
+
+      const result = await wikiService.moveFolder('docs', 'guides/docs');
+
+      expect(result.pages.map(page => page.path)).toEqual(['guides/docs/setup.md']);
+      expect(result.failedMoves).toEqual(['docs/faq.md']);
+      expect([...store.keys()].sort()).toEqual(['docs/faq.md', 'guides/docs/setup.md', 'index.md', 'notes.md']);
+      expect(store.get('docs/faq.md')!.content).toBe('Edited');
+      expect(store.get('notes.md')!.content).toBe('Read the [[docs/faq]] and [[/guides/docs/setup|docs/setup]].');
+    });
+
+    it('should fail a page move when the page changed before it was removed', async () => {
+      vi.mocked(mockS3Service.copyPage).mockImplementation(async (page, to) => {
+        store.set(to, { ...page, path: to, etag: `copied-${to}` });
+        store.set(page.path, { ...page, etag: 'edited' });
+        return { success: true, etag: `copied-${to}` };
+      });
+
+      await expect(wikiService.movePage('docs/setup.md', 'setup.md')).rejects.toMatchObject({
+        code: ErrorCodes.EDIT_CONFLICT
+      });
+      expect([...store.keys()].sort()).toEqual(['docs/setup.md', 'index.md']);
+      expect(store.get('index.md')!.content).toBe('See [[docs/setup]] and [setup](docs/setup.md).');
+    });
+
+    it('should not move a folder into itself', async () => {
+      await expect(wikiService.moveFolder('docs', 'docs/archive')).rejects.toThrow('cannot be moved into itself');
+    });
+
+    it('should create a folder with an index page', async () => {
+      const page = await wikiService.createFolder('/notes/2026/');
+
+      expect(page.path).toBe('notes/2026/index.md');
+      expect(store.get('notes/2026/index.md')!.content).toBe('# 2026\n');
+    });
+
+    it('should preview and delete a folder with files only it references', async () => {
+      addPage('docs/faq.md', '![diagram](files/shared.png)');
+      store.set('docs/setup.md', { ...store.get('docs/setup.md')!, content: '![diagram](files/shared.png)' });
+      vi.mocked(mockS3Service.listFiles).mockResolvedValue([
+        { id: 'shared', filename: 'shared.png', size: 1, contentType: 'image/png', uploadedAt: new Date(), url: '' }
+      ]);
+
+      const preview = await wikiService.validateFolderDeletion('docs');
+
+      expect(preview.pages.map(page => page.path).sort()).toEqual(['docs/faq.md', 'docs/setup.md']);
+      expect(preview.orphanedFiles.map(file => file.filename)).toEqual(['shared.png']);
+      expect(preview.referencingPages.map(page => page.path)).toEqual(['index.md']);
+
+      const result = await wikiService.deleteFolder('docs');
+
+      expect(result.deletedPages.sort()).toEqual(['docs/faq.md', 'docs/setup.md']);
+      expect([...store.keys()]).toEqual(['index.md']);
+    });
   });
 
   describe('searchPages', () => {
@@ -207,6 +612,72 @@ describe('WikiService', () => {
       expect(results[0].path).toBe('title-match.md');
       expect(results[1].path).toBe('content-match.md');
     });
+
+    it('should search the stored index without loading page content', async () => {
+      const mockPages: WikiPageMeta[] = [
+        {
+          path: 'docs/deploy.md',
+          title: 'Deployment',
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-01-01'),
+          author: 'test'
+        },
+        {
+          path: 'notes.md',
+          title: 'Notes',
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-01-01'),
+          author: 'test'
+        }
+      ];
+
+      vi.mocked(mockS3Service.listPages).mockResolvedValue(mockPages);
+      vi.mocked(mockS3Service.getSearchIndex).mockResolvedValue(
+        applySearchIndexChanges(createSearchIndex(), {
+          'docs/deploy.md': 'Steps for the release.',
+          'notes.md': 'Remember the release checklist.'
+        })
+      );
+
+      const results = await wikiService.searchPages('release');
+      const folderResults = await wikiService.searchPagesInFolder('release', 'docs/');
+
+      expect(results.map(page => page.path)).toEqual(['notes.md', 'docs/deploy.md']);
+      expect(folderResults.map(page => page.path)).toEqual(['docs/deploy.md']);
+      expect(results[0].snippets).toEqual([
+        { text: 'Remember the release checklist.', highlights: [{ start: 13, end: 20 }] }
+      ]);
+      expect(mockS3Service.getSearchIndex).toHaveBeenCalledTimes(1);
+      expect(mockS3Service.getPage).not.toHaveBeenCalled();
+    });
+
+    it('should search a rebuilt index that cannot be stored', async () => {
+      vi.mocked(mockS3Service.listPages).mockResolvedValue([
+        { path: 'notes.md', title: 'Notes', createdAt: new Date(), updatedAt: new Date(), author: 'test' }
+      ]);
+      vi.mocked(mockS3Service.getPage).mockImplementation(async path => ({
+        path,
+        title: 'Notes',
+        content: 'Remember the release checklist.',
+        metadata: { createdAt: new Date(), updatedAt: new Date(), author: 'test', version: 1 }
+      }));
+      vi.mocked(mockS3Service.getSearchIndex).mockResolvedValue(null);
+      vi.mocked(mockS3Service.updateSearchIndex).mockRejectedValue(
+        new WikiError(ErrorCodes.S3_ACCESS_DENIED, 'Access denied')
+      );
+
+      const results = await wikiService.searchPages('release');
+
+      expect(results.map(page => page.path)).toEqual(['notes.md']);
+      expect(mockS3Service.updateSearchIndex).toHaveBeenCalledWith({ 'notes.md': 'Remember the release checklist.' }, true);
+    });
+
+    it('should reject queries with syntax errors', async () => {
+      await expect(wikiService.searchPages('tag: "unterminated')).rejects.toMatchObject({
+        code: ErrorCodes.INVALID_SEARCH_QUERY
+      });
+      expect(mockS3Service.getSearchIndex).not.toHaveBeenCalled();
+    });
   });
 
   describe('getPageHierarchy', () => {
@@ -249,6 +720,93 @@ describe('WikiService', () => {
     });
   });
 
+  describe('page history', () => {
+    it('should list page versions from S3', async () => {
+      const versions = [
+        {
+          versionId: 'v2',
+          path: 'test-page.md',
+          version: 2,
+          author: 'alice',
+          updatedAt: new Date('2024-01-02'),
+          size: 120,
+          isLatest: true
+        },
+        {
+          versionId: 'v1',
+          path: 'test-page.md',
+          version: 1,
+          author: 'bob',
+          updatedAt: new Date('2024-01-01'),
+          size: 80,
+          isLatest: false
+        }
+      ];
+      vi.mocked(mockS3Service.listPageVersions).mockResolvedValue(versions);
+
+      const result = await wikiService.listPageVersions('test-page.md');
+
+      expect(result).toEqual(versions);
+      expect(mockS3Service.listPageVersions).toHaveBeenCalledWith('test-page.md');
+    });
+
+    it('should restore a revision as a new version using the current ETag', async () => {
+      const path = 'test-page.md';
+      const currentPage: WikiPage = {
+        path,
+        title: 'Current',
+        content: '# Current',
+        metadata: {
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-01-03'),
+          author: 'alice',
+          version: 3
+        },
+        etag: 'current-etag'
+      };
+      const oldRevision: WikiPage = {
+        ...currentPage,
+        title: 'Original',
+        content: '# Original',
+        metadata: { ...currentPage.metadata, version: 1 },
+        etag: 'old-etag'
+      };
+
+      vi.mocked(mockS3Service.getPageVersion).mockResolvedValue(oldRevision);
+      vi.mocked(mockS3Service.getPage).mockResolvedValue(currentPage);
+      vi.mocked(mockS3Service.savePage).mockResolvedValue({
+        success: true,
+        etag: 'new-etag'
+      });
+
+      const result = await wikiService.restorePageVersion(path, 'v1', 'current-etag');
+
+      expect(mockS3Service.getPageVersion).toHaveBeenCalledWith(path, 'v1');
+      expect(mockS3Service.savePage).toHaveBeenCalledWith(
+        expect.objectContaining({ content: '# Original' }),
+        'current-etag'
+      );
+      expect(result.content).toBe('# Original');
+      expect(result.metadata.version).toBe(4);
+      expect(result.etag).toBe('new-etag');
+    });
+
+    it('should not restore over a page changed since the editor loaded it', async () => {
+      const path = 'test-page.md';
+      const metadata = { createdAt: new Date(), updatedAt: new Date(), author: 'alice', version: 3 };
+      const currentPage: WikiPage = { path, title: 'Current', content: '# Newer', metadata, etag: 'newer-etag' };
+
+      vi.mocked(mockS3Service.getPageVersion).mockResolvedValue({ ...currentPage, content: '# Original' });
+      vi.mocked(mockS3Service.getPage).mockResolvedValue(currentPage);
+
+      await expect(wikiService.restorePageVersion(path, 'v1', 'loaded-etag')).rejects.toMatchObject({
+        code: ErrorCodes.EDIT_CONFLICT,
+        details: currentPage
+      });
+      expect(mockS3Service.savePage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deletePage', () => {
     it('should delete page and return orphaned files info', async () => {
       const path = 'test-page.md';
@@ -262,7 +820,8 @@ describe('WikiService', () => {
           updatedAt: new Date(),
           author: 'test',
           version: 1
-        }
+        },
+        etag: 'page-etag'
       };
 
       vi.mocked(mockS3Service.getPage).mockResolvedValue(mockPage);
@@ -274,8 +833,139 @@ describe('WikiService', () => {
       const result = await wikiService.deletePage(path);
 
       expect(result.deletedPage).toBe(path);
-      expect(mockS3Service.deletePage).toHaveBeenCalledWith(path);
+      // The delete is rejected if the page changed after it was read
+      expect(mockS3Service.deletePage).toHaveBeenCalledWith(path, 'page-etag');
       expect(mockS3Service.updateMetadata).toHaveBeenCalled();
+      expect(mockS3Service.updateLinkGraph).toHaveBeenCalledWith({ [path]: null });
+    });
+  });
+
+  describe('templates', () => {
+    it('should load and sort templates by name', async () => {
+      const sources: Record<string, string> = {
+        adr: '---\ntemplate:\n  name: Decision record\n---\n# {{title}}',
+        meeting: '---\ntemplate:\n  name: Agenda\n  folders: [meetings]\n---\n# {{title}}'
+      };
+      vi.mocked(mockS3Service.listTemplates).mockResolvedValue(Object.keys(sources));
+      vi.mocked(mockS3Service.getTemplate).mockImplementation(async id => sources[id]);
+
+      const templates = await wikiService.getTemplates();
+
+      expect(templates.map(template => [template.id, template.name, template.folders])).toEqual([
+        ['meeting', 'Agenda', ['meetings']],
+        ['adr', 'Decision record', []]
+      ]);
+    });
+
+    it('should reject template ids that are not plain file names', async () => {
+      await expect(wikiService.saveTemplate('../pages/index', '# x')).rejects.toThrow('Template id');
+      expect(mockS3Service.saveTemplate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offline mode', () => {
+    const storedPage: WikiPage = {
+      path: 'notes.md',
+      title: 'Notes',
+      content: '# Notes',
+      metadata: {
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01'),
+        author: 'test',
+        version: 1
+      },
+      etag: 'etag-1'
+    };
+
+    beforeEach(async () => {
+      // Load the page and the page list while online so copies are stored
+      vi.mocked(mockS3Service.getPage).mockResolvedValue(storedPage);
+      vi.mocked(mockS3Service.listPages).mockResolvedValue([
+        { path: 'notes.md', title: 'Notes', createdAt: new Date('2024-01-01'), updatedAt: new Date('2024-01-01'), author: 'test' }
+      ]);
+      vi.mocked(mockS3Service.savePage).mockResolvedValue({ success: true, etag: 'etag-2' });
+      await wikiService.getPage('notes.md');
+      await wikiService.getPageHierarchy();
+
+      pageCache.clear();
+      vi.clearAllMocks();
+      vi.mocked(isOnline).mockReturnValue(false);
+    });
+
+    it('should serve stored pages and the page list while offline', async () => {
+      const page = await wikiService.getPage('notes.md');
+      const hierarchy = await wikiService.getPageHierarchy();
+
+      expect(page.content).toBe('# Notes');
+      expect(hierarchy.map(node => node.path)).toEqual(['notes.md']);
+      expect(mockS3Service.getPage).not.toHaveBeenCalled();
+      expect(mockS3Service.listPages).not.toHaveBeenCalled();
+      await expect(wikiService.getPage('missing.md')).rejects.toMatchObject({ code: 'PAGE_NOT_FOUND' });
+    });
+
+    it('should queue changes while offline and replay them with the base ETag', async () => {
+      await wikiService.updatePage('notes.md', '# Notes\n\nOffline edit');
+      await wikiService.createPage('todo.md', '# Todo');
+
+      expect(mockS3Service.savePage).not.toHaveBeenCalled();
+      expect((await wikiService.getPage('notes.md')).content).toBe('# Notes\n\nOffline edit');
+      expect((await offlineStore.getOutbox()).map(entry => [entry.type, entry.path, entry.baseEtag])).toEqual([
+        ['update', 'notes.md', 'etag-1'],
+        ['create', 'todo.md', undefined]
+      ]);
+
+      vi.mocked(isOnline).mockReturnValue(true);
+      vi.mocked(mockS3Service.getPage).mockImplementation(async path => {
+        if (path === 'notes.md') return storedPage;
+        throw new WikiError(ErrorCodes.BUCKET_NOT_FOUND, 'Not found', { name: 'NoSuchKey' });
+      });
+
+      const result = await wikiService.syncOutbox();
+
+      expect(result).toEqual({ synced: ['notes.md', 'todo.md'], conflicts: [], pending: 0 });
+      expect(mockS3Service.savePage).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'notes.md', content: '# Notes\n\nOffline edit' }),
+        'etag-1'
+      );
+      expect(mockS3Service.savePage).toHaveBeenCalledWith(expect.objectContaining({ path: 'todo.md' }));
+    });
+
+    it('should keep a replayed change queued when the connection drops during the sync', async () => {
+      await wikiService.updatePage('notes.md', '# Notes\n\nOffline edit');
+
+      vi.mocked(isOnline).mockReturnValue(true);
+      vi.mocked(mockS3Service.getPage).mockImplementation(async () => {
+        vi.mocked(isOnline).mockReturnValue(false);
+        return storedPage;
+      });
+      vi.mocked(mockS3Service.savePage).mockRejectedValue(new WikiError(ErrorCodes.NETWORK_ERROR, 'Network error'));
+
+      const result = await wikiService.syncOutbox();
+
+      expect(result).toEqual({ synced: [], conflicts: [], pending: 1 });
+      expect(mockS3Service.savePage).toHaveBeenCalledTimes(1);
+      expect(await offlineStore.getOutbox()).toMatchObject([
+        { type: 'update', path: 'notes.md', content: '# Notes\n\nOffline edit', error: 'Network error' }
+      ]);
+    });
+
+    it('should keep changes to pages modified on the server as conflicts until resolved', async () => {
+      await wikiService.deletePage('notes.md');
+      await expect(wikiService.getPage('notes.md')).rejects.toMatchObject({ code: 'PAGE_NOT_FOUND' });
+
+      vi.mocked(isOnline).mockReturnValue(true);
+      vi.mocked(mockS3Service.getPage).mockResolvedValue({ ...storedPage, content: '# Changed', etag: 'etag-3' });
+
+      const result = await wikiService.syncOutbox();
+
+      expect(result.synced).toEqual([]);
+      expect(result.conflicts).toMatchObject([{ type: 'delete', path: 'notes.md', conflict: true }]);
+      expect(mockS3Service.deletePage).not.toHaveBeenCalled();
+
+      await wikiService.resolveOutboxConflict(result.conflicts[0].id, 'overwrite');
+
+      expect(mockS3Service.deletePage).toHaveBeenCalledWith('notes.md', 'etag-3');
+      expect(await offlineStore.getOutbox()).toEqual([]);
     });
   });
-});
\ No newline at end of file
+});
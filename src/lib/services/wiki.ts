@@ -7,14 +7,46 @@ import type {
   WikiService as IWikiService,
   WikiPage,
   WikiPageMeta,
+  PageMetadata,
   PageNode,
   PageDeletionResult,
+  PageMoveOptions,
+  PageMoveResult,
+  RedirectedPage,
+  PageTemplate,
+  FolderMoveResult,
+  FolderDeletionResult,
+  FolderDeletionPreview,
+  PageVersion,
   FileInfo,
+  LinkGraph,
+  SearchIndex,
+  SearchResult,
+  OutboxEntry,
+  OutboxSyncResult,
   S3Service
 } from '../types/index.js';
 import { WikiError, ErrorCodes } from '../types/index.js';
 import { s3Service } from './s3.js';
 import { pageCache, prefetchService } from './cache.js';
+import { offlineStore } from './offline.js';
+import { isOnline } from '../utils/awsErrorHandler.js';
+import { addOutboxChange, createOutboxId } from '../utils/outbox.js';
+import { findPageByAlias, resolveWikiLinkTarget, type WikiLinkResolver } from '../utils/wikiLinks.js';
+import { extractPageLinks, findBacklinks, rewritePageLinks } from '../utils/linkGraph.js';
+import {
+  applySearchIndexChanges,
+  createSearchIndex,
+  rankPages,
+  SEARCH_INDEX_FORMAT,
+  toSearchResult
+} from '../utils/searchIndex.js';
+import { parseSearchQuery } from '../utils/searchQuery.js';
+import { extractFirstHeading, parseFrontMatter, setFrontMatter } from '../utils/frontMatter.js';
+import { isValidTemplateId, parseTemplate } from '../utils/templates.js';
+
+// Redirect chains longer than this are treated like loops
+const MAX_REDIRECTS = 10;
 
 /**
  * Wiki Service implementation
@@ -34,57 +66,11 @@ export class WikiService implements IWikiService {
       // Validate path
       this.validatePagePath(path);
 
-      // Check if page already exists
-      try {
-        await this.s3Service.getPage(path);
-        throw new WikiError(
-          ErrorCodes.INVALID_FILE_TYPE,
-          `Page already exists: ${path}`
-        );
-      } catch (error) {
-        if (error instanceof WikiError && error.code !== ErrorCodes.BUCKET_NOT_FOUND) {
-          throw error;
-        }
-        // Page doesn't exist, which is what we want for creation
-      }
-
-      // Extract title from content or path
-      const title = this.extractTitleFromContent(content) || this.extractTitleFromPath(path);
-
-      // Create new page with metadata
-      const newPage: WikiPage = {
-        path,
-        title,
-        content,
-        metadata: {
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          author: 'current-user', // TODO: Get from auth service
-          version: 1,
-          tags: this.extractTagsFromContent(content)
-        }
-      };
-
-      // Save the page
-      const saveResult = await this.s3Service.savePage(newPage);
-      
-      if (!saveResult.success) {
-        throw new WikiError(
-          ErrorCodes.NETWORK_ERROR,
-          'Failed to create page'
-        );
+      if (!isOnline()) {
+        return await this.createOfflinePage(path, content);
       }
 
-      // Invalidate caches
-      pageCache.invalidatePageCaches(path);
-
-      // Prefetch related pages
-      this.prefetchRelatedPages(path);
-
-      return {
-        ...newPage,
-        etag: saveResult.etag
-      };
+      return await this.saveNewPage(path, content);
     } catch (error) {
       if (error instanceof WikiError) {
         throw error;
@@ -98,59 +84,15 @@ export class WikiService implements IWikiService {
 
   /**
    * Update an existing wiki page
+   * When expectedEtag is given, the update is rejected if the page changed since it was loaded
    */
-  async updatePage(path: string, content: string): Promise<WikiPage> {
-    try {
-      // Get existing page
-      const existingPage = await this.s3Service.getPage(path);
-
-      // Extract title from content or keep existing
-      const title = this.extractTitleFromContent(content) || existingPage.title;
-
-      // Create updated page
-      const updatedPage: WikiPage = {
-        ...existingPage,
-        title,
-        content,
-        metadata: {
-          ...existingPage.metadata,
-          updatedAt: new Date(),
-          author: 'current-user', // TODO: Get from auth service
-          version: existingPage.metadata.version + 1,
-          tags: this.extractTagsFromContent(content)
-        }
-      };
-
-      // Save with optimistic locking
-      const saveResult = await this.s3Service.savePage(updatedPage, existingPage.etag);
-      
-      if (saveResult.conflict) {
-        throw new WikiError(
-          ErrorCodes.EDIT_CONFLICT,
-          'Page has been modified by another user',
-          saveResult.conflictData
-        );
-      }
-
-      if (!saveResult.success) {
-        throw new WikiError(
-          ErrorCodes.NETWORK_ERROR,
-          'Failed to update page'
-        );
+  async updatePage(path: string, content: string, expectedEtag?: string): Promise<WikiPage> {
+    try {
+      if (!isOnline()) {
+        return await this.updateOfflinePage(path, content, expectedEtag);
       }
 
-      // Update cache with new content
-      pageCache.setPageContent(path, content);
-      // Invalidate other caches
-      pageCache.invalidatePageCaches();
-
-      // Prefetch related pages
-      this.prefetchRelatedPages(path);
-
-      return {
-        ...updatedPage,
-        etag: saveResult.etag
-      };
+      return await this.saveExistingPage(path, content, expectedEtag);
     } catch (error) {
       if (error instanceof WikiError) {
         throw error;
@@ -163,9 +105,13 @@ export class WikiService implements IWikiService {
   }
 
   /**
-   * Get a wiki page with caching
+   * Get a wiki page with caching; while offline the stored copy is returned
    */
   async getPage(path: string): Promise<WikiPage> {
+    if (!isOnline()) {
+      return this.getOfflinePage(path);
+    }
+
     try {
       // Check cache first
       const cachedContent = pageCache.getPageContent(path);
@@ -174,7 +120,7 @@ export class WikiService implements IWikiService {
         const allPages = await this.getCachedPageList();
         const pageMeta = allPages.find(p => p.path === path);
         if (pageMeta) {
-          return {
+          return this.withPageProperties({
             path,
             title: pageMeta.title,
             content: cachedContent,
@@ -185,17 +131,31 @@ export class WikiService implements IWikiService {
               version: 1, // TODO: Add version to metadata
               tags: pageMeta.tags
             }
-          };
+          });
         }
       }
 
       // Fetch from S3 and cache
       const page = await this.s3Service.getPage(path);
       pageCache.setPageContent(path, page.content);
+      await this.storeOfflineCopy(page);
       
-      return page;
+      return this.withPageProperties(page);
     } catch (error) {
       if (error instanceof WikiError) {
+        if (this.isMissingObjectError(error)) {
+          throw new WikiError(
+            ErrorCodes.PAGE_NOT_FOUND,
+            `Page not found: ${path}`,
+            error.details
+          );
+        }
+        if (error.code === ErrorCodes.NETWORK_ERROR) {
+          const stored = await offlineStore.getPage(path);
+          if (stored) {
+            return this.withPageProperties(stored);
+          }
+        }
         throw error;
       }
       throw new WikiError(
@@ -205,35 +165,71 @@ export class WikiService implements IWikiService {
     }
   }
 
+  /**
+   * Get the page to display for a requested path.
+   * Follows `redirect_to` front matter and, for missing paths, page aliases.
+   * A redirect to a missing page stops at the redirect page itself.
+   */
+  async getPageWithRedirects(path: string): Promise<RedirectedPage> {
+    const pages = await this.getCachedPageList();
+    const redirects: string[] = [];
+    let page: WikiPage;
+
+    try {
+      page = await this.getPage(path);
+    } catch (error) {
+      const aliased = error instanceof WikiError && error.code === ErrorCodes.PAGE_NOT_FOUND
+        ? findPageByAlias(path, pages)
+        : null;
+      if (!aliased) {
+        throw error;
+      }
+      redirects.push(path);
+      page = await this.getPage(aliased);
+    }
+
+    const visited = new Set([page.path]);
+    while (page.metadata.redirectTo) {
+      // Redirect targets are paths from the wiki root, or page titles
+      const target = resolveWikiLinkTarget(`/${page.metadata.redirectTo.replace(/^\/+/, '')}`, pages);
+      if (!target) break;
+
+      if (visited.has(target) || visited.size > MAX_REDIRECTS) {
+        return { page, redirects, loop: true };
+      }
+
+      let next: WikiPage;
+      try {
+        next = await this.getPage(target);
+      } catch (error) {
+        if (error instanceof WikiError && error.code === ErrorCodes.PAGE_NOT_FOUND) break;
+        throw error;
+      }
+
+      redirects.push(page.path);
+      visited.add(target);
+      page = next;
+    }
+
+    return { page, redirects, loop: false };
+  }
+
   /**
    * Delete a wiki page and handle orphaned files
    */
   async deletePage(path: string): Promise<PageDeletionResult> {
     try {
+      if (!isOnline()) {
+        return await this.deleteOfflinePage(path);
+      }
+
       // Get page to check if it exists
       const page = await this.s3Service.getPage(path);
 
       // Find files that are only referenced by this page
-      const orphanedFiles = await this.findOrphanedFilesForPage(path);
-
-      // Delete the page
-      await this.s3Service.deletePage(path);
-
-      // Update metadata to remove the page
-      await this.s3Service.updateMetadata({
-        type: 'delete',
-        pageData: {
-          path,
-          title: page.title,
-          createdAt: page.metadata.createdAt,
-          updatedAt: page.metadata.updatedAt,
-          author: page.metadata.author,
-          tags: page.metadata.tags
-        }
-      });
+      const orphanedFiles = await this.findOrphanedFiles([path]);
 
-      // Invalidate all page caches
-      pageCache.invalidatePageCaches(path);
+      await this.removePage(page);
 
       return {
         deletedPage: path,
@@ -252,103 +248,123 @@ export class WikiService implements IWikiService {
   }
 
   /**
-   * Search pages by title and content with hierarchical structure consideration
+   * Move or rename a page.
+   * Copies the object to the new path, rewrites links in the pages referencing it and
+   * either removes the old page or replaces it with a redirect stub.
    */
-  async searchPages(query: string): Promise<WikiPageMeta[]> {
+  async movePage(from: string, to: string, options: PageMoveOptions = {}): Promise<PageMoveResult> {
     try {
-      if (!query.trim()) {
-        return [];
+      this.validatePagePath(to);
+      if (from === to) {
+        throw new WikiError(
+          ErrorCodes.INVALID_FILE_TYPE,
+          'The new path is the same as the current path'
+        );
       }
 
-      // Get all pages with caching
-      const allPages = await this.getCachedPageList();
-      const searchTerm = query.toLowerCase();
-      const results: WikiPageMeta[] = [];
+      const { pages, updatedPages, failedPages } = await this.movePages({ [from]: to }, options);
+      return { page: pages[0], updatedPages, failedPages };
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to move page: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 
-      // Enhanced search with multiple criteria
-      const titleMatches: WikiPageMeta[] = [];
-      const pathMatches: WikiPageMeta[] = [];
-      const contentMatches: WikiPageMeta[] = [];
-      const tagMatches: WikiPageMeta[] = [];
+  /**
+   * Create a folder with an index page.
+   * Folders only exist through the pages in them, so the index page keeps an empty folder visible.
+   */
+  async createFolder(path: string): Promise<WikiPage> {
+    const folder = this.normalizeFolderPath(path);
+    const name = folder.split('/').pop()!;
+    return this.createPage(`${folder}/index.md`, `# ${name}\n`);
+  }
 
-      // Search in titles (highest priority)
-      for (const page of allPages) {
-        if (page.title.toLowerCase().includes(searchTerm)) {
-          titleMatches.push(page);
-        }
+  /**
+   * Move or rename a folder together with all pages below it
+   */
+  async moveFolder(from: string, to: string, options: PageMoveOptions = {}): Promise<FolderMoveResult> {
+    try {
+      const source = this.normalizeFolderPath(from);
+      const target = this.normalizeFolderPath(to);
+
+      if (source === target || target.startsWith(`${source}/`)) {
+        throw new WikiError(
+          ErrorCodes.INVALID_FILE_TYPE,
+          'A folder cannot be moved into itself'
+        );
       }
 
-      // Search in paths/folder structure (high priority)
-      for (const page of allPages) {
-        if (!titleMatches.some(tm => tm.path === page.path)) {
-          const pathParts = page.path.toLowerCase().split('/');
-          if (pathParts.some(part => part.includes(searchTerm))) {
-            pathMatches.push(page);
-          }
-        }
+      const folderPages = await this.listFolderPages(source);
+      const moves: Record<string, string> = {};
+      for (const page of folderPages) {
+        moves[page.path] = target + page.path.slice(source.length);
       }
 
-      // Search in tags (medium priority)
-      for (const page of allPages) {
-        if (!titleMatches.some(tm => tm.path === page.path) && 
-            !pathMatches.some(pm => pm.path === page.path)) {
-          if (page.tags && page.tags.some(tag => tag.toLowerCase().includes(searchTerm))) {
-            tagMatches.push(page);
-          }
-        }
+      return await this.movePages(moves, options);
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
       }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to move folder: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 
-      // Search in content (lower priority)
-      for (const page of allPages) {
-        if (!titleMatches.some(tm => tm.path === page.path) &&
-            !pathMatches.some(pm => pm.path === page.path) &&
-            !tagMatches.some(tm => tm.path === page.path)) {
-          try {
-            const fullPage = await this.s3Service.getPage(page.path);
-            if (fullPage.content.toLowerCase().includes(searchTerm)) {
-              contentMatches.push(page);
-            }
-          } catch (error) {
-            // Skip pages that can't be loaded
-            console.warn(`Failed to search content in page ${page.path}:`, error);
-          }
-        }
+  /**
+   * Delete a folder and every page below it.
+   * Use validateFolderDeletion first to preview the files that become orphaned.
+   */
+  async deleteFolder(path: string): Promise<FolderDeletionResult> {
+    try {
+      const folder = this.normalizeFolderPath(path);
+      const folderPages = await this.listFolderPages(folder);
+      const orphanedFiles = await this.findOrphanedFiles(folderPages.map(page => page.path));
+
+      const deletedPages: string[] = [];
+      for (const meta of folderPages) {
+        const page = await this.s3Service.getPage(meta.path);
+        await this.removePage(page);
+        deletedPages.push(meta.path);
       }
 
-      // Combine results with priority order
-      results.push(...titleMatches);
-      results.push(...pathMatches);
-      results.push(...tagMatches);
-      results.push(...contentMatches);
-
-      // Sort by relevance within each category, then by hierarchy depth and update date
-      return results.sort((a, b) => {
-        // Determine match types
-        const aIsTitleMatch = titleMatches.some(tm => tm.path === a.path);
-        const bIsTitleMatch = titleMatches.some(tm => tm.path === b.path);
-        const aIsPathMatch = pathMatches.some(pm => pm.path === a.path);
-        const bIsPathMatch = pathMatches.some(pm => pm.path === b.path);
-        const aIsTagMatch = tagMatches.some(tm => tm.path === a.path);
-        const bIsTagMatch = tagMatches.some(tm => tm.path === b.path);
-
-        // Priority order: title > path > tag > content
-        if (aIsTitleMatch && !bIsTitleMatch) return -1;
-        if (!aIsTitleMatch && bIsTitleMatch) return 1;
-        if (aIsPathMatch && !bIsPathMatch && !bIsTitleMatch) return -1;
-        if (!aIsPathMatch && bIsPathMatch && !aIsTitleMatch) return 1;
-        if (aIsTagMatch && !bIsTagMatch && !bIsTitleMatch && !bIsPathMatch) return -1;
-        if (!aIsTagMatch && bIsTagMatch && !aIsTitleMatch && !aIsPathMatch) return 1;
-
-        // Within same category, prefer shallower hierarchy (fewer path segments)
-        const aDepth = a.path.split('/').length;
-        const bDepth = b.path.split('/').length;
-        if (aDepth !== bDepth) {
-          return aDepth - bDepth;
-        }
+      return {
+        deletedFolder: folder,
+        deletedPages,
+        orphanedFiles,
+        confirmationRequired: orphanedFiles.length > 0
+      };
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to delete folder: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 
-        // Finally, sort by update date (most recent first)
-        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
-      });
+  /**
+   * Search pages by title and content with hierarchical structure consideration.
+   * Supports the query language in utils/searchQuery (field filters, phrases, exclusions and OR).
+   */
+  async searchPages(query: string): Promise<SearchResult[]> {
+    try {
+      if (!query.trim()) {
+        return [];
+      }
+
+      const parsed = parseSearchQuery(query);
+      const [index, allPages] = await Promise.all([this.getCachedSearchIndex(), this.getCachedPageList()]);
+      return rankPages(index, allPages, parsed).map(result => toSearchResult(index, result));
     } catch (error) {
       if (error instanceof WikiError) {
         throw error;
@@ -360,6 +376,45 @@ export class WikiService implements IWikiService {
     }
   }
 
+  /**
+   * Rebuild the search index from the content of every page
+   */
+  async rebuildSearchIndex(): Promise<SearchIndex> {
+    try {
+      const allPages = await this.s3Service.listPages();
+      const index = createSearchIndex();
+      const contents: Record<string, string> = {};
+
+      for (const pageMeta of allPages) {
+        try {
+          const page = await this.s3Service.getPage(pageMeta.path);
+          contents[pageMeta.path] = page.content;
+        } catch (error) {
+          console.warn(`Failed to index page ${pageMeta.path}:`, error);
+        }
+      }
+
+      applySearchIndexChanges(index, contents);
+      // Readers without write access, such as guests, still search the rebuilt index
+      try {
+        await this.s3Service.updateSearchIndex(contents, true);
+      } catch (error) {
+        console.warn('Failed to store the rebuilt search index:', error);
+      }
+
+      pageCache.setSearchIndex(index);
+      return index;
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to rebuild search index: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Get page hierarchy as a tree structure with caching
    */
@@ -419,170 +474,301 @@ export class WikiService implements IWikiService {
   }
 
   /**
-   * Search pages within a specific folder/hierarchy
+   * List the stored revisions of a page, newest first
    */
-  async searchPagesInFolder(query: string, folderPath: string): Promise<WikiPageMeta[]> {
+  async listPageVersions(path: string): Promise<PageVersion[]> {
     try {
-      // Get all pages in the specified folder
-      const folderPages = await this.s3Service.listPages(folderPath);
-      
-      if (!query.trim()) {
-        return folderPages;
-      }
-
-      const searchTerm = query.toLowerCase();
-      const results: WikiPageMeta[] = [];
-
-      // Search within the folder pages
-      for (const page of folderPages) {
-        let isMatch = false;
-
-        // Check title
-        if (page.title.toLowerCase().includes(searchTerm)) {
-          isMatch = true;
-        }
-
-        // Check tags
-        if (!isMatch && page.tags && page.tags.some(tag => tag.toLowerCase().includes(searchTerm))) {
-          isMatch = true;
-        }
-
-        // Check content
-        if (!isMatch) {
-          try {
-            const fullPage = await this.s3Service.getPage(page.path);
-            if (fullPage.content.toLowerCase().includes(searchTerm)) {
-              isMatch = true;
-            }
-          } catch (error) {
-            console.warn(`Failed to search content in page ${page.path}:`, error);
-          }
-        }
-
-        if (isMatch) {
-          results.push(page);
-        }
-      }
-
-      // Sort by relevance and hierarchy
-      return results.sort((a, b) => {
-        // Prefer exact title matches
-        const aExactTitle = a.title.toLowerCase() === searchTerm;
-        const bExactTitle = b.title.toLowerCase() === searchTerm;
-        if (aExactTitle && !bExactTitle) return -1;
-        if (!aExactTitle && bExactTitle) return 1;
-
-        // Then by update date
-        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
-      });
+      return await this.s3Service.listPageVersions(path);
     } catch (error) {
       if (error instanceof WikiError) {
         throw error;
       }
       throw new WikiError(
         ErrorCodes.NETWORK_ERROR,
-        `Failed to search pages in folder: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to list page versions: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
   /**
-   * Get pages by tag
+   * Get the content of a specific page revision
    */
-  async getPagesByTag(tag: string): Promise<WikiPageMeta[]> {
+  async getPageVersion(path: string, versionId: string): Promise<WikiPage> {
     try {
-      const allPages = await this.s3Service.listPages();
-      const tagLower = tag.toLowerCase();
-      
-      return allPages
-        .filter(page => page.tags && page.tags.some(t => t.toLowerCase() === tagLower))
-        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+      return await this.s3Service.getPageVersion(path, versionId);
     } catch (error) {
       if (error instanceof WikiError) {
         throw error;
       }
       throw new WikiError(
-        ErrorCodes.NETWORK_ERROR,
-        `Failed to get pages by tag: ${error instanceof Error ? error.message : 'Unknown error'}`
+        ErrorCodes.PAGE_NOT_FOUND,
+        `Page version not found: ${path} (${versionId})`
       );
     }
   }
 
   /**
-   * Get all unique tags from all pages
+   * Restore an earlier revision by saving its content as a new version.
+   * `expectedEtag` is the version the user restored from; a newer save is reported as a conflict.
    */
-  async getAllTags(): Promise<string[]> {
+  async restorePageVersion(path: string, versionId: string, expectedEtag?: string): Promise<WikiPage> {
     try {
-      const allPages = await this.s3Service.listPages();
-      const tagSet = new Set<string>();
-      
-      for (const page of allPages) {
-        if (page.tags) {
-          page.tags.forEach(tag => tagSet.add(tag));
-        }
-      }
-      
-      return Array.from(tagSet).sort();
+      const revision = await this.s3Service.getPageVersion(path, versionId);
+
+      // Goes through the regular update path so the ETag check still applies
+      return await this.updatePage(path, revision.content, expectedEtag);
     } catch (error) {
       if (error instanceof WikiError) {
         throw error;
       }
       throw new WikiError(
         ErrorCodes.NETWORK_ERROR,
-        `Failed to get all tags: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to restore page version: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
   /**
-   * Find all orphaned files in the system
+   * Resolve a [[wiki link]] target to an existing page path
    */
-  async findAllOrphanedFiles(): Promise<FileInfo[]> {
-    try {
-      const allFiles = await this.s3Service.listFiles();
-      const allPages = await this.s3Service.listPages();
-      const orphanedFiles: FileInfo[] = [];
-
-      for (const file of allFiles) {
-        let isReferenced = false;
+  async resolveWikiLink(target: string, fromPath?: string): Promise<string | null> {
+    const resolve = await this.getWikiLinkResolver();
+    return resolve(target, fromPath);
+  }
 
-        // Check if file is referenced in any page
-        for (const pageMeta of allPages) {
-          try {
-            const page = await this.s3Service.getPage(pageMeta.path);
-            if (this.isFileReferencedInContent(file, page.content)) {
-              isReferenced = true;
-              break;
-            }
-          } catch (error) {
-            console.warn(`Failed to check file references in page ${pageMeta.path}:`, error);
-          }
-        }
+  /**
+   * Get a synchronous link resolver backed by the cached page list, for use while rendering
+   */
+  async getWikiLinkResolver(): Promise<WikiLinkResolver> {
+    const pages = await this.getCachedPageList();
+    return (target, fromPath) => resolveWikiLinkTarget(target, pages, fromPath);
+  }
 
-        if (!isReferenced) {
-          orphanedFiles.push(file);
-        }
-      }
+  /**
+   * Get pages that link to the given page, using the link graph
+   */
+  async getBacklinks(path: string): Promise<WikiPageMeta[]> {
+    try {
+      const graph = await this.getLinkGraph();
+      const sources = new Set(findBacklinks(graph.links, path));
+      const allPages = await this.getCachedPageList();
 
-      return orphanedFiles;
+      return allPages
+        .filter(page => sources.has(page.path))
+        .sort((a, b) => a.title.localeCompare(b.title));
     } catch (error) {
       if (error instanceof WikiError) {
         throw error;
       }
       throw new WikiError(
         ErrorCodes.NETWORK_ERROR,
-        `Failed to find orphaned files: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to get backlinks: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
   /**
-   * Delete multiple orphaned files
+   * Rebuild the link graph from the content of every page
    */
-  async deleteOrphanedFiles(fileIds: string[]): Promise<void> {
+  async rebuildLinkGraph(): Promise<LinkGraph> {
     try {
-      const deletePromises = fileIds.map(fileId => this.s3Service.deleteFile(fileId));
-      await Promise.all(deletePromises);
+      const allPages = await this.s3Service.listPages();
+      const links: Record<string, string[]> = {};
+
+      for (const pageMeta of allPages) {
+        try {
+          const page = await this.s3Service.getPage(pageMeta.path);
+          links[pageMeta.path] = extractPageLinks(page.content, pageMeta.path, allPages);
+        } catch (error) {
+          console.warn(`Failed to read links in page ${pageMeta.path}:`, error);
+        }
+      }
+
+      // Readers without write access, such as guests, still get backlinks from the rebuilt graph
+      try {
+        await this.s3Service.updateLinkGraph(links, true);
+      } catch (error) {
+        console.warn('Failed to store the rebuilt link graph:', error);
+      }
+      return { links };
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to rebuild link graph: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Search pages within a specific folder/hierarchy
+   */
+  async searchPagesInFolder(query: string, folderPath: string): Promise<SearchResult[]> {
+    try {
+      const allPages = await this.getCachedPageList();
+      const folderPages = allPages.filter(page => page.path.startsWith(folderPath));
+
+      if (!query.trim()) {
+        return folderPages.map(page => ({ ...page, score: 0, snippets: [] }));
+      }
+
+      const parsed = parseSearchQuery(query);
+      const index = await this.getCachedSearchIndex();
+      return rankPages(index, folderPages, parsed).map(result => toSearchResult(index, result));
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to search pages in folder: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get pages by tag
+   */
+  async getPagesByTag(tag: string): Promise<WikiPageMeta[]> {
+    try {
+      const allPages = await this.s3Service.listPages();
+      const tagLower = tag.toLowerCase();
+      
+      return allPages
+        .filter(page => page.tags && page.tags.some(t => t.toLowerCase() === tagLower))
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to get pages by tag: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get all unique tags from all pages
+   */
+  async getAllTags(): Promise<string[]> {
+    try {
+      const allPages = await this.s3Service.listPages();
+      const tagSet = new Set<string>();
+      
+      for (const page of allPages) {
+        if (page.tags) {
+          page.tags.forEach(tag => tagSet.add(tag));
+        }
+      }
+      
+      return Array.from(tagSet).sort();
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to get all tags: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get all page templates, sorted by name
+   */
+  async getTemplates(): Promise<PageTemplate[]> {
+    try {
+      const ids = await this.s3Service.listTemplates();
+      const templates = await Promise.all(
+        ids.map(async id => parseTemplate(id, await this.s3Service.getTemplate(id)))
+      );
+
+      return templates.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to load templates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Create or replace a page template
+   */
+  async saveTemplate(id: string, content: string): Promise<PageTemplate> {
+    if (!isValidTemplateId(id)) {
+      throw new WikiError(
+        ErrorCodes.INVALID_FILE_TYPE,
+        'Template id may only contain lowercase letters, digits, hyphens and underscores'
+      );
+    }
+
+    await this.s3Service.saveTemplate(id, content);
+    return parseTemplate(id, content);
+  }
+
+  /**
+   * Delete a page template; pages created from it are not affected
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    await this.s3Service.deleteTemplate(id);
+  }
+
+  /**
+   * Find all orphaned files in the system
+   */
+  async findAllOrphanedFiles(): Promise<FileInfo[]> {
+    try {
+      const allFiles = await this.s3Service.listFiles();
+      const allPages = await this.s3Service.listPages();
+      const orphanedFiles: FileInfo[] = [];
+
+      for (const file of allFiles) {
+        let isReferenced = false;
+
+        // Check if file is referenced in any page
+        for (const pageMeta of allPages) {
+          try {
+            const page = await this.s3Service.getPage(pageMeta.path);
+            if (this.isFileReferencedInContent(file, page.content)) {
+              isReferenced = true;
+              break;
+            }
+          } catch (error) {
+            console.warn(`Failed to check file references in page ${pageMeta.path}:`, error);
+          }
+        }
+
+        if (!isReferenced) {
+          orphanedFiles.push(file);
+        }
+      }
+
+      return orphanedFiles;
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to find orphaned files: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Delete multiple orphaned files
+   */
+  async deleteOrphanedFiles(fileIds: string[]): Promise<void> {
+    try {
+      const deletePromises = fileIds.map(fileId => this.s3Service.deleteFile(fileId));
+      await Promise.all(deletePromises);
     } catch (error) {
       if (error instanceof WikiError) {
         throw error;
@@ -665,60 +851,378 @@ export class WikiService implements IWikiService {
         };
       }
 
-      // Find orphaned files
-      const orphanedFiles = await this.findOrphanedFilesForPage(path);
-      
-      // Check if other pages reference this page
-      const allPages = await this.s3Service.listPages();
-      const referencingPages: WikiPageMeta[] = [];
-      
-      for (const pageMeta of allPages) {
-        if (pageMeta.path !== path) {
-          try {
-            const page = await this.s3Service.getPage(pageMeta.path);
-            // Check for wiki links to this page
-            const pageNameWithoutExt = path.replace(/\.md$/, '');
-            const linkPatterns = [
-              new RegExp(`\\[.*?\\]\\(${this.escapeRegExp(path)}\\)`, 'gi'),
-              new RegExp(`\\[.*?\\]\\(${this.escapeRegExp(pageNameWithoutExt)}\\)`, 'gi'),
-              new RegExp(`\\[\\[${this.escapeRegExp(pageNameWithoutExt)}\\]\\]`, 'gi')
-            ];
-            
-            if (linkPatterns.some(pattern => pattern.test(page.content))) {
-              referencingPages.push(pageMeta);
-            }
-          } catch (error) {
-            console.warn(`Failed to check page references in ${pageMeta.path}:`, error);
-          }
+      // Find orphaned files
+      const orphanedFiles = await this.findOrphanedFiles([path]);
+      
+      // Check if other pages reference this page
+      const referencingPages = await this.getBacklinks(path);
+
+      if (orphanedFiles.length > 0) {
+        warnings.push(`${orphanedFiles.length} file(s) will become orphaned`);
+      }
+
+      if (referencingPages.length > 0) {
+        warnings.push(`${referencingPages.length} page(s) reference this page`);
+      }
+
+      return {
+        canDelete: true,
+        orphanedFiles,
+        referencingPages,
+        warnings
+      };
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to validate page deletion: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Preview the deletion of a folder: the pages in it, the files only they reference
+   * and the pages outside the folder that link into it
+   */
+  async validateFolderDeletion(path: string): Promise<FolderDeletionPreview> {
+    try {
+      const folder = this.normalizeFolderPath(path);
+      const pages = await this.listFolderPages(folder);
+      const paths = new Set(pages.map(page => page.path));
+
+      const orphanedFiles = await this.findOrphanedFiles([...paths]);
+
+      const referencing = new Map<string, WikiPageMeta>();
+      for (const page of pages) {
+        for (const source of await this.getBacklinks(page.path)) {
+          if (!paths.has(source.path)) {
+            referencing.set(source.path, source);
+          }
+        }
+      }
+      const referencingPages = [...referencing.values()].sort((a, b) => a.title.localeCompare(b.title));
+
+      const warnings: string[] = [];
+      if (orphanedFiles.length > 0) {
+        warnings.push(`${orphanedFiles.length} file(s) will become orphaned`);
+      }
+      if (referencingPages.length > 0) {
+        warnings.push(`${referencingPages.length} page(s) outside the folder reference it`);
+      }
+
+      return {
+        canDelete: true,
+        pages,
+        orphanedFiles,
+        referencingPages,
+        warnings
+      };
+    } catch (error) {
+      if (error instanceof WikiError) {
+        throw error;
+      }
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        `Failed to validate folder deletion: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Replay the page changes queued while offline, oldest first.
+   * Changes to pages modified on the server since they were queued are marked as conflicts
+   * and kept until resolved; a lost connection stops the sync and leaves the rest queued.
+   */
+  async syncOutbox(): Promise<OutboxSyncResult> {
+    const synced: string[] = [];
+
+    for (const entry of await offlineStore.getOutbox()) {
+      if (entry.conflict) continue;
+      if (!isOnline()) break;
+
+      try {
+        await this.replayOutboxEntry(entry, false);
+        await this.updateOutboxEntry(entry.id, null);
+        synced.push(entry.path);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (error instanceof WikiError && error.code === ErrorCodes.NETWORK_ERROR) {
+          await this.updateOutboxEntry(entry.id, { error: message });
+          break;
+        }
+        await this.updateOutboxEntry(entry.id, {
+          conflict: error instanceof WikiError && error.code === ErrorCodes.EDIT_CONFLICT,
+          error: message
+        });
+      }
+    }
+
+    const outbox = await offlineStore.getOutbox();
+    return {
+      synced,
+      conflicts: outbox.filter(entry => entry.conflict),
+      pending: outbox.length
+    };
+  }
+
+  /**
+   * Resolve a queued change that conflicts with the server: 'overwrite' saves it over the
+   * server page, 'discard' drops it along with the stored copy of the page
+   */
+  async resolveOutboxConflict(id: string, resolution: 'overwrite' | 'discard'): Promise<void> {
+    const entry = (await offlineStore.getOutbox()).find(queued => queued.id === id);
+    if (!entry) {
+      throw new WikiError(
+        ErrorCodes.PAGE_NOT_FOUND,
+        `Queued change not found: ${id}`
+      );
+    }
+
+    if (resolution === 'overwrite') {
+      if (!isOnline()) {
+        throw new WikiError(
+          ErrorCodes.NETWORK_ERROR,
+          'Cannot overwrite the server page while offline'
+        );
+      }
+      await this.replayOutboxEntry(entry, true);
+    } else {
+      pageCache.invalidatePageCaches(entry.path);
+      await this.removeOfflineCopy(entry.path);
+    }
+
+    await this.updateOutboxEntry(id, null);
+  }
+
+  // Private helper methods
+
+  /**
+   * Validate a folder path and strip leading and trailing slashes
+   */
+  private normalizeFolderPath(path: string): string {
+    const folder = path.trim().replace(/^\/+|\/+$/g, '');
+
+    if (!folder) {
+      throw new WikiError(
+        ErrorCodes.INVALID_FILE_TYPE,
+        'Folder path cannot be empty'
+      );
+    }
+    if (folder.endsWith('.md')) {
+      throw new WikiError(
+        ErrorCodes.INVALID_FILE_TYPE,
+        'Folder path must not end with .md'
+      );
+    }
+
+    // Same character and relative path rules as pages
+    this.validatePagePath(`${folder}/index.md`);
+    return folder;
+  }
+
+  /**
+   * All pages below a folder, read from S3 rather than the cache
+   */
+  private async listFolderPages(folder: string): Promise<WikiPageMeta[]> {
+    const pages = await this.s3Service.listPages(`${folder}/`);
+    if (pages.length === 0) {
+      throw new WikiError(
+        ErrorCodes.PAGE_NOT_FOUND,
+        `Folder not found: ${folder}`
+      );
+    }
+    return pages;
+  }
+
+  /**
+   * Move pages to new paths (old path -> new path).
+   * All pages are copied before any old page is replaced, so a failure never loses a page;
+   * when a copy fails, the copies already made are removed again. Each old page is then
+   * removed or replaced with a redirect stub only if it is unchanged since it was read.
+   * A page that cannot be replaced keeps its old path and is reported in `failedMoves`,
+   * unless no page could be moved at all, which throws.
+   * Links to the moved pages are rewritten afterwards; failures there are only reported.
+   */
+  private async movePages(
+    moves: Record<string, string>,
+    options: PageMoveOptions
+  ): Promise<FolderMoveResult> {
+    const sources: WikiPage[] = [];
+    for (const from of Object.keys(moves)) {
+      sources.push(this.withPageProperties(await this.s3Service.getPage(from)));
+    }
+    for (const to of Object.values(moves)) {
+      await this.assertPageDoesNotExist(to);
+    }
+
+    // Links are rewritten against the page list and link graph as they were before the move
+    const pageList = await this.getCachedPageList();
+    const graph = await this.getLinkGraph();
+
+    const copies: Array<{ page: WikiPage; etag: string }> = [];
+    try {
+      for (const page of sources) {
+        const copyResult = await this.s3Service.copyPage(page, moves[page.path]);
+        if (copyResult.conflict) {
+          throw new WikiError(
+            ErrorCodes.EDIT_CONFLICT,
+            `Page has been modified by another user: ${page.path}`
+          );
+        }
+        copies.push({ page, etag: copyResult.etag });
+      }
+    } catch (error) {
+      for (const copy of copies) {
+        await this.removeMovedCopy(copy.page, moves[copy.page.path], copy.etag);
+      }
+      pageCache.invalidatePageCaches();
+      throw error;
+    }
+
+    pageCache.invalidatePageCaches();
+
+    const moved: Record<string, string> = {};
+    const movedCopies: Array<{ page: WikiPage; etag: string }> = [];
+    const failedMoves: string[] = [];
+    let moveError: unknown;
+
+    for (const { page, etag } of copies) {
+      const to = moves[page.path];
+      const redirectStub = options.leaveRedirect ? this.createRedirectStub({ ...page, path: to }) : null;
+
+      try {
+        if (redirectStub !== null) {
+          await this.updatePage(page.path, redirectStub, page.etag);
+        } else {
+          await this.removePage(page);
+        }
+      } catch (error) {
+        // Leave no page at both its old and new path
+        if (!(await this.isOldPageReplaced(page.path, redirectStub))) {
+          console.warn(`Failed to move ${page.path}:`, error);
+          await this.removeMovedCopy(page, to, etag);
+          failedMoves.push(page.path);
+          moveError ??= error;
+          continue;
+        }
+        console.warn(`Failed to finish moving ${page.path}:`, error);
+      }
+
+      moved[page.path] = to;
+      movedCopies.push({ page, etag });
+    }
+
+    pageCache.invalidatePageCaches();
+
+    if (movedCopies.length === 0) {
+      throw moveError;
+    }
+
+    const movedPages: WikiPage[] = [];
+    const updatedPages: string[] = [];
+    const failedPages: string[] = [];
+
+    for (const { page, etag } of movedCopies) {
+      const to = moved[page.path];
+      let movedPage: WikiPage = { ...page, path: to, etag };
+
+      // Folder-relative links of the page itself may point elsewhere from the new folder
+      try {
+        const content = rewritePageLinks(page.content, page.path, pageList, moved);
+        if (content !== page.content) {
+          movedPage = await this.updatePage(to, content, etag);
+        } else {
+          await this.updatePageLinks(to, content);
+          this.updateCachedSearchIndex(to, content);
+        }
+      } catch (error) {
+        console.warn(`Failed to rewrite links in ${to}:`, error);
+        failedPages.push(to);
+      }
+      movedPages.push(movedPage);
+    }
+
+    // Pages that were not moved keep their path, so their links are rewritten like any other referrer
+    const referencingPaths = new Set<string>();
+    for (const from of Object.keys(moved)) {
+      for (const source of findBacklinks(graph.links, from)) {
+        if (!(source in moved)) {
+          referencingPaths.add(source);
         }
       }
+    }
 
-      if (orphanedFiles.length > 0) {
-        warnings.push(`${orphanedFiles.length} file(s) will become orphaned`);
+    for (const path of [...referencingPaths].sort()) {
+      try {
+        const source = await this.s3Service.getPage(path);
+        const rewritten = rewritePageLinks(source.content, path, pageList, moved);
+        if (rewritten !== source.content) {
+          await this.updatePage(path, rewritten, source.etag);
+          updatedPages.push(path);
+        }
+      } catch (error) {
+        console.warn(`Failed to rewrite links in ${path}:`, error);
+        failedPages.push(path);
       }
+    }
 
-      if (referencingPages.length > 0) {
-        warnings.push(`${referencingPages.length} page(s) reference this page`);
-      }
+    pageCache.invalidatePageCaches();
 
-      return {
-        canDelete: true,
-        orphanedFiles,
-        referencingPages,
-        warnings
-      };
+    return { pages: movedPages, updatedPages, failedPages, failedMoves };
+  }
+
+  /**
+   * Remove the copy of a page whose move is rolled back, unless it changed since it was copied
+   */
+  private async removeMovedCopy(page: WikiPage, to: string, etag: string): Promise<void> {
+    try {
+      await this.removePage({ ...page, path: to, etag });
     } catch (error) {
-      if (error instanceof WikiError) {
-        throw error;
-      }
-      throw new WikiError(
-        ErrorCodes.NETWORK_ERROR,
-        `Failed to validate page deletion: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      console.warn(`Failed to remove copy ${to}:`, error);
     }
   }
 
-  // Private helper methods
+  /**
+   * Whether the old path of a page no longer holds the page after a failed move step:
+   * it is gone or holds the redirect stub. If it cannot be read, the copy is kept.
+   */
+  private async isOldPageReplaced(path: string, redirectStub: string | null): Promise<boolean> {
+    try {
+      const current = await this.s3Service.getPage(path);
+      return redirectStub !== null && current.content === redirectStub;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Delete a page object and remove it from the metadata index, link graph and caches
+   */
+  private async removePage(page: WikiPage): Promise<void> {
+    await this.s3Service.deletePage(page.path, page.etag);
+
+    // Update metadata to remove the page
+    await this.s3Service.updateMetadata({
+      type: 'delete',
+      pageData: {
+        path: page.path,
+        title: page.title,
+        createdAt: page.metadata.createdAt,
+        updatedAt: page.metadata.updatedAt,
+        author: page.metadata.author,
+        tags: page.metadata.tags
+      }
+    });
+
+    // Invalidate all page caches
+    pageCache.invalidatePageCaches(page.path);
+    await this.removeOfflineCopy(page.path);
+
+    await this.updatePageLinks(page.path, null);
+    this.updateCachedSearchIndex(page.path, null);
+  }
 
   /**
    * Validate page path format
@@ -757,40 +1261,124 @@ export class WikiService implements IWikiService {
   }
 
   /**
-   * Extract title from markdown content (first # heading)
+   * A new page at `path` with its title and properties read from the front matter
    */
-  private extractTitleFromContent(content: string): string | null {
-    const lines = content.split('\n');
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.startsWith('# ')) {
-        return trimmed.substring(2).trim();
+  private buildNewPage(path: string, content: string): WikiPage {
+    // Extract title and properties from the front matter, falling back to the path
+    const { title: extractedTitle, properties } = this.extractPageProperties(content);
+
+    return {
+      path,
+      title: extractedTitle || this.extractTitleFromPath(path),
+      content,
+      metadata: {
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        author: 'current-user', // TODO: Get from auth service
+        version: 1,
+        ...properties
       }
-    }
-    return null;
+    };
   }
 
   /**
-   * Extract title from file path
+   * The next version of `existingPage` with new content
    */
-  private extractTitleFromPath(path: string): string {
-    const filename = path.split('/').pop() || path;
-    return filename.replace(/\.md$/, '').replace(/[-_]/g, ' ');
+  private buildUpdatedPage(existingPage: WikiPage, content: string): WikiPage {
+    // Extract title and properties from the front matter or keep the existing title
+    const { title: extractedTitle, properties } = this.extractPageProperties(content);
+
+    return {
+      ...existingPage,
+      title: extractedTitle || existingPage.title,
+      content,
+      metadata: {
+        ...existingPage.metadata,
+        updatedAt: new Date(),
+        author: 'current-user', // TODO: Get from auth service
+        version: existingPage.metadata.version + 1,
+        ...properties
+      }
+    };
+  }
+
+  /**
+   * Throw if a page already exists at `path`
+   */
+  private async assertPageDoesNotExist(path: string): Promise<void> {
+    if (await this.findServerPage(path)) {
+      throw new WikiError(
+        ErrorCodes.INVALID_FILE_TYPE,
+        `Page already exists: ${path}`
+      );
+    }
   }
 
   /**
-   * Extract tags from markdown content (look for tags: metadata)
+   * Load a page from S3, or null when it does not exist
    */
-  private extractTagsFromContent(content: string): string[] | undefined {
-    const lines = content.split('\n');
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.toLowerCase().startsWith('tags:')) {
-        const tagsStr = trimmed.substring(5).trim();
-        return tagsStr.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  private async findServerPage(path: string): Promise<WikiPage | null> {
+    try {
+      return await this.s3Service.getPage(path);
+    } catch (error) {
+      if (error instanceof WikiError && error.code !== ErrorCodes.BUCKET_NOT_FOUND) {
+        throw error;
       }
+      return null;
     }
-    return undefined;
+  }
+
+  /**
+   * Content left at the old path of a moved page
+   */
+  private createRedirectStub(target: WikiPage): string {
+    const link = `[[/${target.path.replace(/\.md$/i, '')}|${target.title}]]`;
+    return setFrontMatter(`This page has moved to ${link}.\n`, { fields: { redirect_to: target.path } });
+  }
+
+  /**
+   * Extract title and page properties from the YAML front matter.
+   * Without a front matter title, the first # heading outside code blocks is used.
+   */
+  private extractPageProperties(content: string): {
+    title: string | null;
+    properties: Pick<PageMetadata, 'tags' | 'aliases' | 'description' | 'template' | 'customFields' | 'redirectTo'>;
+  } {
+    const { frontMatter, body } = parseFrontMatter(content);
+    const { title, tags, aliases, description, template, fields } = frontMatter;
+    const redirectTo = typeof fields.redirect_to === 'string' ? fields.redirect_to.trim() : '';
+
+    return {
+      title: title || extractFirstHeading(body),
+      properties: {
+        tags,
+        aliases,
+        description,
+        template,
+        customFields: Object.keys(fields).length > 0 ? fields : undefined,
+        redirectTo: redirectTo || undefined
+      }
+    };
+  }
+
+  /**
+   * Fill in title and metadata from the page content
+   */
+  private withPageProperties(page: WikiPage): WikiPage {
+    const { title, properties } = this.extractPageProperties(page.content);
+    return {
+      ...page,
+      title: title || page.title,
+      metadata: { ...page.metadata, ...properties }
+    };
+  }
+
+  /**
+   * Extract title from file path
+   */
+  private extractTitleFromPath(path: string): string {
+    const filename = path.split('/').pop() || path;
+    return filename.replace(/\.md$/, '').replace(/[-_]/g, ' ');
   }
 
   /**
@@ -839,24 +1427,29 @@ export class WikiService implements IWikiService {
   }
 
   /**
-   * Find files that would become orphaned if a page is deleted
+   * Find files that would become orphaned if the given pages are deleted
    */
-  private async findOrphanedFilesForPage(pagePath: string): Promise<FileInfo[]> {
+  private async findOrphanedFiles(pagePaths: string[]): Promise<FileInfo[]> {
     try {
       // Get the page content to find referenced files
-      const page = await this.s3Service.getPage(pagePath);
+      const deleted = new Set(pagePaths);
+      const contents: string[] = [];
+      for (const pagePath of pagePaths) {
+        contents.push((await this.s3Service.getPage(pagePath)).content);
+      }
+
       const allFiles = await this.s3Service.listFiles();
       const allPages = await this.s3Service.listPages();
       
       const orphanedFiles: FileInfo[] = [];
       
       for (const file of allFiles) {
-        if (this.isFileReferencedInContent(file, page.content)) {
+        if (contents.some(content => this.isFileReferencedInContent(file, content))) {
           // Check if this file is referenced in any other page
           let referencedElsewhere = false;
           
           for (const otherPageMeta of allPages) {
-            if (otherPageMeta.path !== pagePath) {
+            if (!deleted.has(otherPageMeta.path)) {
               try {
                 const otherPage = await this.s3Service.getPage(otherPageMeta.path);
                 if (this.isFileReferencedInContent(file, otherPage.content)) {
@@ -899,6 +1492,29 @@ export class WikiService implements IWikiService {
     return patterns.some(pattern => pattern.test(content));
   }
 
+  /**
+   * Record the outgoing links of a page in the link graph; null removes the page.
+   * The page itself is already saved, so failures are only logged.
+   */
+  private async updatePageLinks(path: string, content: string | null): Promise<void> {
+    try {
+      const links = content === null
+        ? null
+        : extractPageLinks(content, path, await this.getCachedPageList());
+      await this.s3Service.updateLinkGraph({ [path]: links });
+    } catch (error) {
+      console.warn(`Failed to update link graph for ${path}:`, error);
+    }
+  }
+
+  /**
+   * Check whether an S3 error means the requested object does not exist
+   */
+  private isMissingObjectError(error: WikiError): boolean {
+    const name = error.details?.name || error.details?.code;
+    return name === 'NoSuchKey' || name === 'NotFound';
+  }
+
   /**
    * Escape special regex characters
    */
@@ -907,7 +1523,7 @@ export class WikiService implements IWikiService {
   }
 
   /**
-   * Get cached page list or fetch from S3
+   * Get cached page list or fetch from S3, falling back to the stored list while offline
    */
   private async getCachedPageList(): Promise<WikiPageMeta[]> {
     const cached = pageCache.getPageList();
@@ -915,11 +1531,343 @@ export class WikiService implements IWikiService {
       return cached;
     }
 
-    const pages = await this.s3Service.listPages();
+    if (!isOnline()) {
+      return this.getOfflinePageList();
+    }
+
+    let pages: WikiPageMeta[];
+    try {
+      pages = await this.s3Service.listPages();
+    } catch (error) {
+      const stored = error instanceof WikiError && error.code === ErrorCodes.NETWORK_ERROR
+        ? await offlineStore.getPageList()
+        : null;
+      if (!stored) {
+        throw error;
+      }
+      return stored;
+    }
+
     pageCache.setPageList(pages);
+    await this.storeOffline(() => offlineStore.savePageList(pages));
     return pages;
   }
 
+  /**
+   * The stored copy of a page, for reading while offline
+   */
+  private async getOfflinePage(path: string): Promise<WikiPage> {
+    const stored = await offlineStore.getPage(path);
+    if (stored) {
+      return this.withPageProperties(stored);
+    }
+
+    const pages = await offlineStore.getPageList();
+    if (pages && !pages.some(page => page.path === path)) {
+      throw new WikiError(
+        ErrorCodes.PAGE_NOT_FOUND,
+        `Page not found: ${path}`
+      );
+    }
+    throw new WikiError(
+      ErrorCodes.NETWORK_ERROR,
+      `Page is not available offline: ${path}`
+    );
+  }
+
+  /**
+   * The page list stored when it was last loaded, for reading while offline
+   */
+  private async getOfflinePageList(): Promise<WikiPageMeta[]> {
+    const stored = await offlineStore.getPageList();
+    if (!stored) {
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        'The page list is not available offline'
+      );
+    }
+    return stored;
+  }
+
+  private async createOfflinePage(path: string, content: string): Promise<WikiPage> {
+    const pages = (await offlineStore.getPageList()) ?? [];
+    if (pages.some(page => page.path === path)) {
+      throw new WikiError(
+        ErrorCodes.INVALID_FILE_TYPE,
+        `Page already exists: ${path}`
+      );
+    }
+
+    const newPage = this.buildNewPage(path, content);
+    await this.queueOfflineChange({ type: 'create', path, content }, newPage);
+    return newPage;
+  }
+
+  private async updateOfflinePage(path: string, content: string, expectedEtag?: string): Promise<WikiPage> {
+    const existingPage = await this.getOfflinePage(path);
+
+    if (expectedEtag && existingPage.etag && existingPage.etag !== expectedEtag) {
+      throw new WikiError(
+        ErrorCodes.EDIT_CONFLICT,
+        'Page has been modified by another user',
+        existingPage
+      );
+    }
+
+    // The stored ETag is kept so the editor's next save still matches it
+    const updatedPage = this.buildUpdatedPage(existingPage, content);
+    await this.queueOfflineChange({ type: 'update', path, content, baseEtag: existingPage.etag }, updatedPage);
+    return updatedPage;
+  }
+
+  private async deleteOfflinePage(path: string): Promise<PageDeletionResult> {
+    const page = await this.getOfflinePage(path);
+    await this.queueOfflineChange({ type: 'delete', path, baseEtag: page.etag }, null);
+
+    // Orphaned files are only known once the deletion reaches the server
+    return {
+      deletedPage: path,
+      orphanedFiles: [],
+      confirmationRequired: false
+    };
+  }
+
+  /**
+   * Queue a change made while offline for syncOutbox and apply it to the stored pages;
+   * `page` is the changed page, or null when it was deleted
+   */
+  private async queueOfflineChange(
+    change: Pick<OutboxEntry, 'type' | 'path' | 'content' | 'baseEtag'>,
+    page: WikiPage | null
+  ): Promise<void> {
+    const outbox = await offlineStore.getOutbox();
+    await offlineStore.saveOutbox(addOutboxChange(outbox, { id: createOutboxId(), queuedAt: new Date(), ...change }));
+
+    const pages = ((await offlineStore.getPageList()) ?? []).filter(meta => meta.path !== change.path);
+    if (page) {
+      await offlineStore.savePage(page);
+      pages.push({
+        path: page.path,
+        title: page.title,
+        createdAt: page.metadata.createdAt,
+        updatedAt: page.metadata.updatedAt,
+        author: page.metadata.author,
+        tags: page.metadata.tags,
+        aliases: page.metadata.aliases
+      });
+    } else {
+      await offlineStore.removePage(change.path);
+    }
+    await offlineStore.savePageList(pages);
+
+    pageCache.invalidatePageCaches(change.path);
+  }
+
+  /**
+   * Save a new page to S3. Never queues the change offline, so queued changes replay through it.
+   */
+  private async saveNewPage(path: string, content: string): Promise<WikiPage> {
+    // Check if page already exists
+    await this.assertPageDoesNotExist(path);
+
+    // Create new page with metadata
+    const newPage = this.buildNewPage(path, content);
+
+    // Save the page
+    const saveResult = await this.s3Service.savePage(newPage);
+
+    if (!saveResult.success) {
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        'Failed to create page'
+      );
+    }
+
+    // Invalidate caches
+    pageCache.invalidatePageCaches(path);
+
+    await this.updatePageLinks(path, content);
+    this.updateCachedSearchIndex(path, content);
+
+    // Prefetch related pages
+    this.prefetchRelatedPages(path);
+
+    const createdPage = {
+      ...newPage,
+      etag: saveResult.etag
+    };
+    await this.storeOfflineCopy(createdPage);
+    return createdPage;
+  }
+
+  /**
+   * Save changes to an existing page in S3, rejecting them if the page changed since `expectedEtag`.
+   * Never queues the change offline, so queued changes replay through it.
+   */
+  private async saveExistingPage(path: string, content: string, expectedEtag?: string): Promise<WikiPage> {
+    // Get existing page
+    const existingPage = await this.s3Service.getPage(path);
+
+    if (expectedEtag && existingPage.etag && existingPage.etag !== expectedEtag) {
+      throw new WikiError(
+        ErrorCodes.EDIT_CONFLICT,
+        'Page has been modified by another user',
+        existingPage
+      );
+    }
+
+    // Create updated page
+    const updatedPage = this.buildUpdatedPage(existingPage, content);
+
+    // Save with optimistic locking
+    const saveResult = await this.s3Service.savePage(updatedPage, expectedEtag || existingPage.etag);
+
+    if (saveResult.conflict) {
+      throw new WikiError(
+        ErrorCodes.EDIT_CONFLICT,
+        'Page has been modified by another user',
+        saveResult.conflictData
+      );
+    }
+
+    if (!saveResult.success) {
+      throw new WikiError(
+        ErrorCodes.NETWORK_ERROR,
+        'Failed to update page'
+      );
+    }
+
+    // Update cache with new content
+    pageCache.setPageContent(path, content);
+    // Invalidate other caches
+    pageCache.invalidatePageCaches();
+
+    await this.updatePageLinks(path, content);
+    this.updateCachedSearchIndex(path, content);
+
+    // Prefetch related pages
+    this.prefetchRelatedPages(path);
+
+    const savedPage = {
+      ...updatedPage,
+      etag: saveResult.etag
+    };
+    await this.storeOfflineCopy(savedPage);
+    return savedPage;
+  }
+
+  /**
+   * Save a queued change to S3. Unless `force` is set, a change to a page that was created,
+   * modified or deleted on the server since it was queued fails with EDIT_CONFLICT.
+   * The change is never queued again: if the connection is lost, the replay fails and the
+   * entry stays in the outbox.
+   */
+  private async replayOutboxEntry(entry: OutboxEntry, force: boolean): Promise<void> {
+    const serverPage = await this.findServerPage(entry.path);
+
+    if (entry.type === 'delete') {
+      if (!serverPage) return;
+      if (!force && entry.baseEtag && serverPage.etag !== entry.baseEtag) {
+        throw new WikiError(
+          ErrorCodes.EDIT_CONFLICT,
+          'Page has been modified by another user',
+          serverPage
+        );
+      }
+      await this.removePage(serverPage);
+      return;
+    }
+
+    const content = entry.content ?? '';
+    if (!serverPage) {
+      if (entry.type === 'update' && !force) {
+        throw new WikiError(
+          ErrorCodes.EDIT_CONFLICT,
+          'Page has been deleted by another user'
+        );
+      }
+      await this.saveNewPage(entry.path, content);
+      return;
+    }
+
+    if (entry.type === 'create' && !force) {
+      throw new WikiError(
+        ErrorCodes.EDIT_CONFLICT,
+        'Page has been created by another user',
+        serverPage
+      );
+    }
+    await this.saveExistingPage(entry.path, content, force ? undefined : entry.baseEtag);
+  }
+
+  /**
+   * Apply changes to a queued entry; null removes it from the outbox
+   */
+  private async updateOutboxEntry(id: string, changes: Partial<OutboxEntry> | null): Promise<void> {
+    const outbox = await offlineStore.getOutbox();
+    await offlineStore.saveOutbox(changes === null
+      ? outbox.filter(entry => entry.id !== id)
+      : outbox.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  }
+
+  /**
+   * Keep a copy of a loaded or saved page for reading offline
+   */
+  private async storeOfflineCopy(page: WikiPage): Promise<void> {
+    await this.storeOffline(() => offlineStore.savePage(page));
+  }
+
+  private async removeOfflineCopy(path: string): Promise<void> {
+    await this.storeOffline(() => offlineStore.removePage(path));
+  }
+
+  /**
+   * Offline copies are a convenience, so failing to store them does not fail the request
+   */
+  private async storeOffline(action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      console.warn('Failed to update offline data:', error);
+    }
+  }
+
+  /**
+   * Get the link graph, building it when it does not exist yet.
+   * A stored graph covers every page, since only a full rebuild creates it.
+   */
+  private async getLinkGraph(): Promise<LinkGraph> {
+    return (await this.s3Service.getLinkGraph()) ?? (await this.rebuildLinkGraph());
+  }
+
+  /**
+   * Get the search index, loading it from S3 once and rebuilding it when missing or outdated
+   */
+  private async getCachedSearchIndex(): Promise<SearchIndex> {
+    const cached = pageCache.getSearchIndex();
+    if (cached) {
+      return cached;
+    }
+
+    const stored = await this.s3Service.getSearchIndex();
+    if (stored && stored.format === SEARCH_INDEX_FORMAT) {
+      pageCache.setSearchIndex(stored);
+      return stored;
+    }
+
+    return this.rebuildSearchIndex();
+  }
+
+  /**
+   * Apply a page change to the loaded search index; S3Service keeps the stored copy up to date
+   */
+  private updateCachedSearchIndex(path: string, content: string | null): void {
+    const cached = pageCache.getSearchIndex();
+    if (cached) {
+      applySearchIndexChanges(cached, { [path]: content });
+    }
+  }
+
   /**
    * Prefetch related pages for performance
    */
@@ -0,0 +1,122 @@
+/**
+ * Sync Store
+ * Tracks the connection and the page changes queued while offline,
+ * and replays them when the connection returns
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { Writable, Readable } from 'svelte/store';
+import type { OutboxEntry } from '../types/index.js';
+import { wikiService } from '../services/wiki.js';
+import { offlineStore } from '../services/offline.js';
+import { isOnline } from '../utils/awsErrorHandler.js';
+
+// Sync state interface
+interface SyncState {
+  online: boolean;
+  outbox: OutboxEntry[];
+  isSyncing: boolean;
+  lastSyncedAt: Date | null;
+  error: string | null;
+}
+
+// Initial state
+const initialState: SyncState = {
+  online: true,
+  outbox: [],
+  isSyncing: false,
+  lastSyncedAt: null,
+  error: null
+};
+
+// Create writable store for sync state
+const syncState: Writable<SyncState> = writable(initialState);
+
+// Derived stores for convenient access
+export const online: Readable<boolean> = derived(syncState, $state => $state.online);
+export const pendingChanges: Readable<number> = derived(syncState, $state => $state.outbox.length);
+export const syncConflicts: Readable<OutboxEntry[]> = derived(
+  syncState,
+  $state => $state.outbox.filter(entry => entry.conflict)
+);
+
+// Sync store actions
+export const syncStore = {
+  // Subscribe to the store
+  subscribe: syncState.subscribe,
+
+  /**
+   * Load the outbox, follow connection changes and sync anything left from the last session
+   */
+  async init(): Promise<void> {
+    offlineStore.onOutboxChange(outbox => {
+      syncState.update(state => ({ ...state, outbox }));
+    });
+
+    window.addEventListener('online', () => {
+      syncState.update(state => ({ ...state, online: true }));
+      this.sync();
+    });
+    window.addEventListener('offline', () => {
+      syncState.update(state => ({ ...state, online: false }));
+    });
+
+    const outbox = await offlineStore.getOutbox();
+    syncState.update(state => ({ ...state, online: isOnline(), outbox }));
+
+    if (outbox.length > 0) {
+      await this.sync();
+    }
+  },
+
+  /**
+   * Replay the queued changes
+   */
+  async sync(): Promise<void> {
+    if (get(syncState).isSyncing || !isOnline()) {
+      return;
+    }
+
+    syncState.update(state => ({ ...state, isSyncing: true, error: null }));
+
+    try {
+      const result = await wikiService.syncOutbox();
+      syncState.update(state => ({
+        ...state,
+        isSyncing: false,
+        lastSyncedAt: result.synced.length > 0 ? new Date() : state.lastSyncedAt
+      }));
+    } catch (error) {
+      console.error('Sync error:', error);
+      syncState.update(state => ({
+        ...state,
+        isSyncing: false,
+        error: error instanceof Error ? error.message : 'Failed to sync changes'
+      }));
+    }
+  },
+
+  /**
+   * Overwrite the server page with a conflicting change, or discard the change
+   */
+  async resolveConflict(id: string, resolution: 'overwrite' | 'discard'): Promise<void> {
+    syncState.update(state => ({ ...state, error: null }));
+
+    try {
+      await wikiService.resolveOutboxConflict(id, resolution);
+    } catch (error) {
+      console.error('Conflict resolution error:', error);
+      syncState.update(state => ({
+        ...state,
+        error: error instanceof Error ? error.message : 'Failed to resolve the conflict'
+      }));
+    }
+  }
+};
+
+// Initialize sync store when module loads (browser only)
+if (typeof window !== 'undefined') {
+  syncStore.init().catch(error => {
+    console.error('Failed to initialize sync store:', error);
+  });
+}
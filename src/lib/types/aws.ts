@@ -2,42 +2,95 @@
  * AWS service related types
  */
 
-import type { WikiPage, WikiPageMeta, WikiConfig, FileInfo, SaveResult, MetadataOperation, User, AuthResult } from './wiki.js';
+import type { WikiPage, WikiPageMeta, WikiConfig, FileInfo, SaveResult, MetadataOperation, LinkGraph, SearchIndex, SearchResult, PageVersion, User, AuthResult, EditLock } from './wiki.js';
 
 export interface S3Service {
   // Page operations
   getPage(path: string): Promise<WikiPage>;
   savePage(page: WikiPage, etag?: string): Promise<SaveResult>;
-  deletePage(path: string): Promise<void>;
+  copyPage(page: WikiPage, to: string): Promise<SaveResult>;
+  deletePage(path: string, etag?: string): Promise<void>;
   listPages(prefix?: string): Promise<WikiPageMeta[]>;
   
+  // Page history operations (requires bucket versioning)
+  listPageVersions(path: string): Promise<PageVersion[]>;
+  getPageVersion(path: string, versionId: string): Promise<WikiPage>;
+  
   // File operations
   uploadFile(file: File, path: string): Promise<string>;
   deleteFile(path: string): Promise<void>;
   listFiles(): Promise<FileInfo[]>;
   getFileUrl(path: string): Promise<string>;
+  getFileContent(path: string): Promise<Uint8Array>;
   
   // Configuration operations
   getConfig(): Promise<WikiConfig>;
   saveConfig(config: WikiConfig): Promise<void>;
+
+  // Page template operations
+  listTemplates(): Promise<string[]>;
+  getTemplate(id: string): Promise<string>;
+  saveTemplate(id: string, content: string): Promise<void>;
+  deleteTemplate(id: string): Promise<void>;
+
+  // Advisory edit locks
+  getEditLock(path: string): Promise<EditLock | null>;
+  saveEditLock(lock: EditLock): Promise<void>;
+  deleteEditLock(path: string): Promise<void>;
   
   // Metadata operations (atomic)
   updateMetadata(operation: MetadataOperation): Promise<void>;
+  getMetadataObjects(): Promise<Record<string, string>>;
+
+  // Link graph operations (atomic); a null link list removes the page
+  getLinkGraph(): Promise<LinkGraph | null>;
+  updateLinkGraph(changes: Record<string, string[] | null>, replace?: boolean): Promise<void>;
+
+  // Search index operations (atomic); a null content removes the page
+  getSearchIndex(): Promise<SearchIndex | null>;
+  updateSearchIndex(changes: Record<string, string | null>, replace?: boolean): Promise<void>;
 }
 
 export interface WikiService {
   createPage(path: string, content: string): Promise<WikiPage>;
-  updatePage(path: string, content: string): Promise<WikiPage>;
+  updatePage(path: string, content: string, expectedEtag?: string): Promise<WikiPage>;
   getPage(path: string): Promise<WikiPage>;
+  getPageWithRedirects(path: string): Promise<import('./wiki.js').RedirectedPage>;
   deletePage(path: string): Promise<import('./wiki.js').PageDeletionResult>;
-  searchPages(query: string): Promise<WikiPageMeta[]>;
+  movePage(from: string, to: string, options?: import('./wiki.js').PageMoveOptions): Promise<import('./wiki.js').PageMoveResult>;
+  searchPages(query: string): Promise<SearchResult[]>;
   getPageHierarchy(): Promise<import('./wiki.js').PageNode[]>;
   getPageAttachments(path: string): Promise<FileInfo[]>;
   
+  // Folder operations; folders exist through the pages below them
+  createFolder(path: string): Promise<WikiPage>;
+  moveFolder(from: string, to: string, options?: import('./wiki.js').PageMoveOptions): Promise<import('./wiki.js').FolderMoveResult>;
+  deleteFolder(path: string): Promise<import('./wiki.js').FolderDeletionResult>;
+  validateFolderDeletion(path: string): Promise<import('./wiki.js').FolderDeletionPreview>;
+  
+  // Page history
+  listPageVersions(path: string): Promise<PageVersion[]>;
+  getPageVersion(path: string, versionId: string): Promise<WikiPage>;
+  restorePageVersion(path: string, versionId: string, expectedEtag?: string): Promise<WikiPage>;
+  
+  // Wiki links
+  resolveWikiLink(target: string, fromPath?: string): Promise<string | null>;
+  getWikiLinkResolver(): Promise<import('../utils/wikiLinks.js').WikiLinkResolver>;
+
+  // Link graph
+  getBacklinks(path: string): Promise<WikiPageMeta[]>;
+  rebuildLinkGraph(): Promise<LinkGraph>;
+  
   // Enhanced search functionality
-  searchPagesInFolder(query: string, folderPath: string): Promise<WikiPageMeta[]>;
+  searchPagesInFolder(query: string, folderPath: string): Promise<SearchResult[]>;
   getPagesByTag(tag: string): Promise<WikiPageMeta[]>;
   getAllTags(): Promise<string[]>;
+  rebuildSearchIndex(): Promise<SearchIndex>;
+  
+  // Page templates
+  getTemplates(): Promise<import('./wiki.js').PageTemplate[]>;
+  saveTemplate(id: string, content: string): Promise<import('./wiki.js').PageTemplate>;
+  deleteTemplate(id: string): Promise<void>;
   
   // Orphaned file management
   findAllOrphanedFiles(): Promise<FileInfo[]>;
@@ -49,6 +102,10 @@ export interface WikiService {
     referencingPages: WikiPageMeta[];
     warnings: string[];
   }>;
+  
+  // Changes queued while offline
+  syncOutbox(): Promise<import('./wiki.js').OutboxSyncResult>;
+  resolveOutboxConflict(id: string, resolution: 'overwrite' | 'discard'): Promise<void>;
 }
 
 export interface FileService {
@@ -56,6 +113,7 @@ export interface FileService {
   deleteFile(fileId: string): Promise<void>;
   getFileReferences(fileId: string): Promise<string[]>;
   listFiles(): Promise<FileInfo[]>;
+  getFileUrlResolver(): Promise<import('../utils/fileReferences.js').FileUrlResolver>;
   isImageFile(filename: string): boolean;
   findOrphanedFiles(deletedPagePath: string): Promise<FileInfo[]>;
   deleteOrphanedFiles(fileIds: string[]): Promise<void>;
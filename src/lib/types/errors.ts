@@ -25,5 +25,6 @@ export enum ErrorCodes {
   INVALID_FILE_TYPE = 'INVALID_FILE_TYPE',
   PAGE_NOT_FOUND = 'PAGE_NOT_FOUND',
   FILE_NOT_FOUND = 'FILE_NOT_FOUND',
-  CONFIG_ERROR = 'CONFIG_ERROR'
+  CONFIG_ERROR = 'CONFIG_ERROR',
+  INVALID_SEARCH_QUERY = 'INVALID_SEARCH_QUERY'
 }
\ No newline at end of file
@@ -12,12 +12,29 @@ export type {
   WikiPage,
   PageMetadata,
   WikiPageMeta,
+  SearchResult,
+  SearchSnippet,
   PageNode,
+  PageVersion,
   SaveResult,
   PageDeletionResult,
+  PageMoveOptions,
+  PageMoveResult,
+  RedirectedPage,
+  FolderMoveResult,
+  FolderDeletionResult,
+  FolderDeletionPreview,
+  PageTemplate,
   FileInfo,
   WikiConfig,
-  MetadataOperation
+  MetadataOperation,
+  LinkGraph,
+  SearchIndex,
+  OutboxEntry,
+  OutboxSyncResult,
+  PageDraft,
+  EditLock,
+  EditLockStatus
 } from './wiki.js';
 
 // AWS service types
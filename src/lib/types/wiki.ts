@@ -37,6 +37,13 @@ export interface PageMetadata {
   author: string;
   version: number;
   tags?: string[];
+  // Properties from the YAML front matter of the page
+  aliases?: string[];
+  description?: string;
+  template?: string;
+  customFields?: Record<string, unknown>;
+  // Page the `redirect_to` front matter field points to
+  redirectTo?: string;
 }
 
 export interface WikiPageMeta {
@@ -46,6 +53,20 @@ export interface WikiPageMeta {
   updatedAt: Date;
   author: string;
   tags?: string[];
+  // Other names and old paths the page can be linked to by
+  aliases?: string[];
+}
+
+export interface SearchSnippet {
+  // Surrounding text of one or more hits, with "…" where it was cut
+  text: string;
+  // Character ranges of matched terms within `text`
+  highlights: Array<{ start: number; end: number }>;
+}
+
+export interface SearchResult extends WikiPageMeta {
+  score: number;
+  snippets: SearchSnippet[];
 }
 
 export interface PageNode {
@@ -55,6 +76,17 @@ export interface PageNode {
   isFolder: boolean;
 }
 
+export interface PageVersion {
+  versionId: string;
+  path: string;
+  version: number;
+  author: string;
+  updatedAt: Date;
+  size: number;
+  isLatest: boolean;
+  etag?: string;
+}
+
 export interface SaveResult {
   success: boolean;
   etag: string;
@@ -68,6 +100,64 @@ export interface PageDeletionResult {
   confirmationRequired: boolean;
 }
 
+export interface PageMoveOptions {
+  // Keep a stub at the old path that redirects to the new one
+  leaveRedirect?: boolean;
+}
+
+export interface PageMoveResult {
+  page: WikiPage;
+  // Pages whose links were rewritten to the new path
+  updatedPages: string[];
+  // Pages that still link to the old path because rewriting them failed
+  failedPages: string[];
+}
+
+export interface RedirectedPage {
+  // The page to display
+  page: WikiPage;
+  // Paths redirected through before reaching `page`, starting with the requested one
+  redirects: string[];
+  // The redirects led back to a page already visited and were stopped at `page`
+  loop: boolean;
+}
+
+export interface FolderMoveResult {
+  // The moved pages at their new paths
+  pages: WikiPage[];
+  updatedPages: string[];
+  failedPages: string[];
+  // Pages that kept their old path because they changed or could not be removed during the move
+  failedMoves: string[];
+}
+
+export interface FolderDeletionResult {
+  deletedFolder: string;
+  deletedPages: string[];
+  orphanedFiles: FileInfo[];
+  confirmationRequired: boolean;
+}
+
+export interface FolderDeletionPreview {
+  canDelete: boolean;
+  pages: WikiPageMeta[];
+  orphanedFiles: FileInfo[];
+  // Pages outside the folder linking to pages in it
+  referencingPages: WikiPageMeta[];
+  warnings: string[];
+}
+
+export interface PageTemplate {
+  // File name under templates/ without the .md extension
+  id: string;
+  name: string;
+  description?: string;
+  // Folders whose new pages start from this template
+  folders: string[];
+  // Template source including its front matter
+  content: string;
+}
+
 export interface FileInfo {
   id: string;
   filename: string;
@@ -99,4 +189,73 @@ export interface MetadataOperation {
   type: 'add' | 'update' | 'delete';
   pageData: WikiPageMeta;
   expectedVersion?: string;
-}
\ No newline at end of file
+}
+
+export interface SearchIndex {
+  // Tokenizer format, see SEARCH_INDEX_FORMAT
+  format: number;
+  // Plain text and token count of each page, keyed by path
+  documents: Record<string, { text: string; length: number }>;
+  // Inverted index: term -> page path -> token positions
+  terms: Record<string, Record<string, number[]>>;
+  version?: number;
+}
+
+export interface LinkGraph {
+  // Outgoing internal links keyed by page path
+  links: Record<string, string[]>;
+  version?: number;
+}
+
+export interface OutboxEntry {
+  id: string;
+  type: 'create' | 'update' | 'delete';
+  path: string;
+  // Page content for creates and updates
+  content?: string;
+  // ETag of the page the change was made against; replaying fails when the page changed since
+  baseEtag?: string;
+  queuedAt: Date;
+  // The page changed on the server; the entry waits until it is overwritten or discarded
+  conflict?: boolean;
+  // Message of the last failed replay
+  error?: string;
+}
+
+export interface PageDraft {
+  // Path the page is saved to; new pages use their intended path
+  path: string;
+  // Editor buffer including the front matter
+  content: string;
+  // The server copy the draft was edited from, so restoring a stale draft still detects conflicts
+  baseEtag?: string;
+  baseContent?: string;
+  savedAt: Date;
+}
+
+export interface OutboxSyncResult {
+  // Paths whose changes were saved
+  synced: string[];
+  conflicts: OutboxEntry[];
+  // Entries still queued, including conflicts
+  pending: number;
+}
+
+export interface EditLock {
+  path: string;
+  username: string;
+  // Editor session holding the lock, so two tabs of the same user are told apart
+  sessionId: string;
+  acquiredAt: Date;
+  // Last heartbeat of the holder
+  refreshedAt: Date;
+  // The lock is ignored once the holder stops refreshing it
+  expiresAt: Date;
+}
+
+export interface EditLockStatus {
+  // Whether this session holds the lock
+  acquired: boolean;
+  // The lock now on the page, this session's or another editor's
+  lock: EditLock;
+}
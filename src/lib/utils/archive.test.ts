@@ -0,0 +1,72 @@
+/**
+ * Wiki Archive Utilities Tests
+ * Tests for exported front matter and ZIP creation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { strFromU8, strToU8, unzipSync } from 'fflate';
+import { addMetadataFrontMatter, createZip, isCompressedContentType } from './archive.js';
+import type { WikiPage } from '../types/index.js';
+
+function page(content: string): WikiPage {
+  return {
+    path: 'docs/setup.md',
+    title: 'Setup',
+    content,
+    metadata: {
+      createdAt: new Date('2026-01-02T03:04:05.000Z'),
+      updatedAt: new Date('2026-02-03T04:05:06.000Z'),
+      author: 'alice',
+      version: 3
+    }
+  };
+}
+
+describe('Wiki Archive Utilities', () => {
+  describe('addMetadataFrontMatter', () => {
+    it('should add the page metadata to the front matter', () => {
+      expect(addMetadataFrontMatter(page('# Setup\n'))).toBe(
+        [
+          '---',
+          'created_at: 2026-01-02T03:04:05.000Z',
+          'updated_at: 2026-02-03T04:05:06.000Z',
+          'author: alice',
+          'version: 3',
+          '---',
+          '',
+          '# Setup',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should keep existing properties as written', () => {
+      const content = addMetadataFrontMatter(page('---\ntags: [a, b] # keep\n---\nBody'));
+
+      expect(content.startsWith('---\ntags: [a, b] # keep\ncreated_at:')).toBe(true);
+      expect(content.endsWith('---\nBody')).toBe(true);
+    });
+  });
+
+  describe('isCompressedContentType', () => {
+    it('should skip deflating already compressed formats', () => {
+      expect(isCompressedContentType('image/png')).toBe(true);
+      expect(isCompressedContentType('application/pdf')).toBe(true);
+      expect(isCompressedContentType('image/svg+xml')).toBe(false);
+      expect(isCompressedContentType('text/markdown')).toBe(false);
+    });
+  });
+
+  describe('createZip', () => {
+    it('should round trip the entries', async () => {
+      const data = await createZip({
+        'pages/a.md': strToU8('# A'),
+        'files/img.png': [new Uint8Array([1, 2, 3]), { level: 0 }]
+      });
+      const entries = unzipSync(data);
+
+      expect(strFromU8(entries['pages/a.md'])).toBe('# A');
+      expect([...entries['files/img.png']]).toEqual([1, 2, 3]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Wiki archive utilities
+ * Layout of exported wiki ZIP files and the page metadata carried in their front matter
+ */
+
+import { zip, type AsyncZippable } from 'fflate';
+import type { FileInfo, WikiPage } from '../types/index.js';
+import { parseFrontMatter, setFrontMatter } from './frontMatter.js';
+
+export const ARCHIVE_FORMAT = 1;
+
+/**
+ * Folders inside the archive, mirroring the S3 prefixes
+ */
+export const ARCHIVE_PATHS = {
+  pages: 'pages/',
+  files: 'files/',
+  config: 'config/',
+  metadata: 'metadata/',
+  manifest: 'marks3-export.json'
+} as const;
+
+/**
+ * Front matter keys holding `PageMetadata` in exported pages
+ */
+export const METADATA_FRONT_MATTER_KEYS = ['created_at', 'updated_at', 'author', 'version'] as const;
+
+/**
+ * Summary written to the root of the archive
+ */
+export interface ArchiveManifest {
+  format: number;
+  exportedAt: string;
+  pages: string[];
+  // Uploaded files without their URLs, which depend on the bucket
+  files: Array<Omit<FileInfo, 'url'>>;
+}
+
+/**
+ * Page content with its metadata added to the front matter.
+ * Other properties and the body are kept as written.
+ */
+export function addMetadataFrontMatter(page: WikiPage): string {
+  const { frontMatter } = parseFrontMatter(page.content);
+
+  return setFrontMatter(page.content, {
+    ...frontMatter,
+    fields: {
+      ...frontMatter.fields,
+      created_at: page.metadata.createdAt.toISOString(),
+      updated_at: page.metadata.updatedAt.toISOString(),
+      author: page.metadata.author,
+      version: page.metadata.version
+    }
+  });
+}
+
+/**
+ * Whether a file is stored in a compressed format, so deflating it again is wasted effort
+ */
+export function isCompressedContentType(contentType: string): boolean {
+  return (
+    (/^(image|video|audio)\//.test(contentType) && contentType !== 'image/svg+xml') ||
+    /(zip|gzip|compressed|pdf)/.test(contentType)
+  );
+}
+
+/**
+ * Build a ZIP file off the main thread where possible
+ */
+export function createZip(entries: AsyncZippable): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    zip(entries, { level: 6 }, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+}
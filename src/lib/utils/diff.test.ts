@@ -0,0 +1,185 @@
+/**
+ * Diff Utilities Tests
+ * Tests for line/word diffs, hunk grouping and side-by-side pairing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffSequences,
+  diffLines,
+  diffWords,
+  createDiff,
+  toSideBySide,
+  splitLines,
+  tokenizeWords
+} from './diff.js';
+
+/**
+ * Rebuild both inputs from a change list
+ */
+function applyChanges(changes: { type: string; value: string }[]) {
+  return {
+    old: changes.filter(c => c.type !== 'insert').map(c => c.value),
+    new: changes.filter(c => c.type !== 'delete').map(c => c.value)
+  };
+}
+
+describe('Diff Utilities', () => {
+  describe('diffSequences', () => {
+    it('should return only equal changes for identical input', () => {
+      const changes = diffSequences(['a', 'b', 'c'], ['a', 'b', 'c']);
+      expect(changes.every(c => c.type === 'equal')).toBe(true);
+      expect(changes).toHaveLength(3);
+    });
+
+    it('should handle empty inputs', () => {
+      expect(diffSequences([], [])).toEqual([]);
+      expect(diffSequences([], ['a'])).toEqual([{ type: 'insert', value: 'a' }]);
+      expect(diffSequences(['a'], [])).toEqual([{ type: 'delete', value: 'a' }]);
+    });
+
+    it('should produce a minimal edit script', () => {
+      const a = 'ABCABBA'.split('');
+      const b = 'CBABAC'.split('');
+      const changes = diffSequences(a, b);
+      const edits = changes.filter(c => c.type !== 'equal').length;
+
+      // The classic Myers example has an edit distance of 5
+      expect(edits).toBe(5);
+      expect(applyChanges(changes)).toEqual({ old: a, new: b });
+    });
+
+    it('should reconstruct both sides for arbitrary input', () => {
+      const a = ['x', 'a', 'b', 'c', 'y', 'z'];
+      const b = ['a', 'q', 'c', 'y', 'w', 'z', 'z'];
+      expect(applyChanges(diffSequences(a, b))).toEqual({ old: a, new: b });
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should detect inserted and deleted lines', () => {
+      const changes = diffLines('one\ntwo\nthree', 'one\nthree\nfour');
+
+      expect(changes).toEqual([
+        { type: 'equal', value: 'one' },
+        { type: 'delete', value: 'two' },
+        { type: 'equal', value: 'three' },
+        { type: 'insert', value: 'four' }
+      ]);
+    });
+
+    it('should treat CRLF and LF line endings the same', () => {
+      const changes = diffLines('a\r\nb', 'a\nb');
+      expect(changes.every(c => c.type === 'equal')).toBe(true);
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should merge adjacent word changes', () => {
+      const changes = diffWords('the quick brown fox', 'the slow brown fox');
+
+      expect(changes).toEqual([
+        { type: 'equal', value: 'the ' },
+        { type: 'delete', value: 'quick' },
+        { type: 'insert', value: 'slow' },
+        { type: 'equal', value: ' brown fox' }
+      ]);
+    });
+
+    it('should tokenize punctuation separately', () => {
+      expect(tokenizeWords('Hello, world!')).toEqual(['Hello', ',', ' ', 'world', '!']);
+    });
+  });
+
+  describe('createDiff', () => {
+    it('should report identical texts', () => {
+      const result = createDiff('same\ntext', 'same\ntext');
+      expect(result.identical).toBe(true);
+      expect(result.hunks).toEqual([]);
+      expect(result.stats).toEqual({ additions: 0, deletions: 0 });
+    });
+
+    it('should number lines and count changes', () => {
+      const result = createDiff('a\nb\nc', 'a\nB\nc');
+
+      expect(result.stats).toEqual({ additions: 1, deletions: 1 });
+      expect(result.hunks).toHaveLength(1);
+
+      const [hunk] = result.hunks;
+      expect(hunk.oldStart).toBe(1);
+      expect(hunk.newStart).toBe(1);
+      expect(hunk.oldLines).toBe(3);
+      expect(hunk.newLines).toBe(3);
+      expect(hunk.lines.map(l => l.type)).toEqual(['equal', 'delete', 'insert', 'equal']);
+      expect(hunk.lines[1].oldNumber).toBe(2);
+      expect(hunk.lines[2].newNumber).toBe(2);
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+      const newText = oldText.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+
+      const result = createDiff(oldText, newText, { context: 2 });
+
+      expect(result.hunks).toHaveLength(2);
+      expect(result.hunks[0].lines[0].content).toBe('line 1');
+      expect(result.hunks[1].oldStart).toBe(16);
+    });
+
+    it('should keep the whole document with infinite context', () => {
+      const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+      const newText = oldText.replace('line 10', 'line ten');
+
+      const result = createDiff(oldText, newText, { context: Infinity });
+
+      expect(result.hunks).toHaveLength(1);
+      expect(result.hunks[0].lines).toHaveLength(21);
+    });
+
+    it('should attach word segments to modified lines in word mode', () => {
+      const result = createDiff('hello old world', 'hello new world', { granularity: 'word' });
+      const [deleted, inserted] = result.hunks[0].lines;
+
+      expect(deleted.segments).toEqual([
+        { type: 'equal', value: 'hello ' },
+        { type: 'delete', value: 'old' },
+        { type: 'equal', value: ' world' }
+      ]);
+      expect(inserted.segments).toEqual([
+        { type: 'equal', value: 'hello ' },
+        { type: 'insert', value: 'new' },
+        { type: 'equal', value: ' world' }
+      ]);
+    });
+
+    it('should not attach word segments in line mode', () => {
+      const result = createDiff('hello old world', 'hello new world');
+      expect(result.hunks[0].lines.every(l => l.segments === undefined)).toBe(true);
+    });
+  });
+
+  describe('toSideBySide', () => {
+    it('should pair deletions with insertions', () => {
+      const { hunks } = createDiff('a\nb\nc\nd', 'a\nx\nd\ne');
+      const rows = toSideBySide(hunks[0].lines);
+
+      expect(rows.map(r => [r.left?.content, r.right?.content])).toEqual([
+        ['a', 'a'],
+        ['b', 'x'],
+        ['c', undefined],
+        ['d', 'd'],
+        [undefined, 'e']
+      ]);
+    });
+  });
+
+  describe('splitLines', () => {
+    it('should return no lines for empty text', () => {
+      expect(splitLines('')).toEqual([]);
+    });
+
+    it('should keep a trailing empty line', () => {
+      expect(splitLines('a\nb\n')).toEqual(['a', 'b', '']);
+    });
+  });
+});
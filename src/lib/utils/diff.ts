@@ -0,0 +1,378 @@
+/**
+ * Text diff utilities
+ * Line and word level diffs (Myers algorithm) used to compare page revisions
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+export type DiffGranularity = 'line' | 'word';
+
+export interface DiffChange {
+  type: DiffOperation;
+  value: string;
+}
+
+export interface DiffLine {
+  type: DiffOperation;
+  content: string;
+  oldNumber?: number;
+  newNumber?: number;
+  // Word level changes within a modified line (granularity 'word' only)
+  segments?: DiffChange[];
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffResult {
+  hunks: DiffHunk[];
+  stats: DiffStats;
+  identical: boolean;
+}
+
+export interface DiffOptions {
+  granularity?: DiffGranularity;
+  // Unchanged lines kept around each change; Infinity keeps the whole document
+  context?: number;
+}
+
+/**
+ * Diff two token sequences, returning one change per token
+ */
+export function diffSequences(a: string[], b: string[]): DiffChange[] {
+  // Strip common prefix and suffix to keep the search space small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const changes: DiffChange[] = [];
+  for (let i = 0; i < start; i++) {
+    changes.push({ type: 'equal', value: a[i] });
+  }
+  changes.push(...myersDiff(a.slice(start, endA), b.slice(start, endB)));
+  for (let i = endA; i < a.length; i++) {
+    changes.push({ type: 'equal', value: a[i] });
+  }
+
+  return changes;
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(oldText: string, newText: string): DiffChange[] {
+  return diffSequences(splitLines(oldText), splitLines(newText));
+}
+
+/**
+ * Diff two texts word by word, merging adjacent tokens of the same type
+ */
+export function diffWords(oldText: string, newText: string): DiffChange[] {
+  return mergeChanges(diffSequences(tokenizeWords(oldText), tokenizeWords(newText)));
+}
+
+/**
+ * Build unified diff hunks with line numbers and optional word level segments
+ */
+export function createDiff(oldText: string, newText: string, options: DiffOptions = {}): DiffResult {
+  const { granularity = 'line', context = 3 } = options;
+  const lines = buildDiffLines(diffLines(oldText, newText), granularity);
+
+  const stats: DiffStats = {
+    additions: lines.filter(line => line.type === 'insert').length,
+    deletions: lines.filter(line => line.type === 'delete').length
+  };
+  const identical = stats.additions === 0 && stats.deletions === 0;
+
+  return {
+    hunks: identical ? [] : groupIntoHunks(lines, context),
+    stats,
+    identical
+  };
+}
+
+/**
+ * Pair deleted and inserted lines of a hunk for side-by-side display
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let deleted: DiffLine[] = [];
+  let inserted: DiffLine[] = [];
+
+  const flush = () => {
+    const count = Math.max(deleted.length, inserted.length);
+    for (let i = 0; i < count; i++) {
+      rows.push({ left: deleted[i], right: inserted[i] });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'delete') {
+      deleted.push(line);
+    } else if (line.type === 'insert') {
+      inserted.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * Split text into lines without line terminators
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Split text into word, whitespace and punctuation tokens
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) || [];
+}
+
+// Internal helpers
+
+/**
+ * Myers O(ND) diff on token arrays
+ */
+function myersDiff(a: string[], b: string[]): DiffChange[] {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0) {
+    return b.map(value => ({ type: 'insert' as const, value }));
+  }
+  if (m === 0) {
+    return a.map(value => ({ type: 'delete' as const, value }));
+  }
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x for diagonals -d-1..d+1 before step d
+  const trace: Int32Array[] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const changes: DiffChange[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      changes.push({ type: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        changes.push({ type: 'insert', value: b[y - 1] });
+      } else {
+        changes.push({ type: 'delete', value: a[x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return changes.reverse();
+}
+
+/**
+ * Merge consecutive changes of the same type into a single change
+ */
+function mergeChanges(changes: DiffChange[]): DiffChange[] {
+  const merged: DiffChange[] = [];
+  for (const change of changes) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === change.type) {
+      last.value += change.value;
+    } else {
+      merged.push({ ...change });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Number lines and order each change block as deletions followed by insertions
+ */
+function buildDiffLines(changes: DiffChange[], granularity: DiffGranularity): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  let deleted: DiffLine[] = [];
+  let inserted: DiffLine[] = [];
+
+  const flush = () => {
+    if (granularity === 'word') {
+      const pairs = Math.min(deleted.length, inserted.length);
+      for (let i = 0; i < pairs; i++) {
+        const words = diffWords(deleted[i].content, inserted[i].content);
+        deleted[i].segments = words.filter(word => word.type !== 'insert');
+        inserted[i].segments = words.filter(word => word.type !== 'delete');
+      }
+    }
+    lines.push(...deleted, ...inserted);
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const change of changes) {
+    if (change.type === 'delete') {
+      deleted.push({ type: 'delete', content: change.value, oldNumber: oldNumber++ });
+    } else if (change.type === 'insert') {
+      inserted.push({ type: 'insert', content: change.value, newNumber: newNumber++ });
+    } else {
+      flush();
+      lines.push({
+        type: 'equal',
+        content: change.value,
+        oldNumber: oldNumber++,
+        newNumber: newNumber++
+      });
+    }
+  }
+  flush();
+
+  return lines;
+}
+
+/**
+ * Group numbered lines into hunks surrounded by `context` unchanged lines
+ */
+function groupIntoHunks(lines: DiffLine[], context: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] | null = null;
+  let trailingEqual = 0;
+
+  // Index of the next changed line at or after each position
+  const nextChange = new Array<number>(lines.length + 1);
+  nextChange[lines.length] = -1;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    nextChange[i] = lines[i].type !== 'equal' ? i : nextChange[i + 1];
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.type !== 'equal') {
+      if (!current) {
+        const from = Math.max(0, i - context);
+        current = lines.slice(from, i);
+      }
+      current.push(line);
+      trailingEqual = 0;
+      continue;
+    }
+
+    if (current) {
+      if (trailingEqual < context) {
+        current.push(line);
+        trailingEqual++;
+        continue;
+      }
+
+      // Keep the hunk open if the next change is close enough to share context
+      const next = nextChange[i];
+      if (next !== -1 && next - i <= context) {
+        current.push(line);
+        continue;
+      }
+
+      hunks.push(toHunk(current));
+      current = null;
+      trailingEqual = 0;
+    }
+  }
+
+  if (current) {
+    hunks.push(toHunk(current));
+  }
+
+  return hunks;
+}
+
+/**
+ * Compute hunk header ranges from its lines
+ */
+function toHunk(lines: DiffLine[]): DiffHunk {
+  const firstOld = lines.find(line => line.oldNumber !== undefined)?.oldNumber;
+  const firstNew = lines.find(line => line.newNumber !== undefined)?.newNumber;
+  const oldLines = lines.filter(line => line.type !== 'insert').length;
+  const newLines = lines.filter(line => line.type !== 'delete').length;
+
+  return {
+    oldStart: firstOld ?? 0,
+    oldLines,
+    newStart: firstNew ?? 0,
+    newLines,
+    lines
+  };
+}
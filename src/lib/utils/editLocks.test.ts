@@ -0,0 +1,93 @@
+/**
+ * Edit Lock Utilities Tests
+ * Tests for creating, refreshing and expiring advisory edit locks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createEditLock,
+  isEditLockExpired,
+  isEditLockStale,
+  isLockedByOther,
+  parseEditLock,
+  EDIT_LOCK_TTL,
+  EDIT_LOCK_STALE_AFTER
+} from './editLocks.js';
+
+const start = new Date('2026-01-01T10:02:00Z');
+
+function after(ms: number): Date {
+  return new Date(start.getTime() + ms);
+}
+
+describe('Edit Lock Utilities', () => {
+  describe('createEditLock', () => {
+    it('should expire a new lock after the TTL', () => {
+      const lock = createEditLock('docs/a.md', 'alice', 'session-1', start);
+
+      expect(lock).toEqual({
+        path: 'docs/a.md',
+        username: 'alice',
+        sessionId: 'session-1',
+        acquiredAt: start,
+        refreshedAt: start,
+        expiresAt: after(EDIT_LOCK_TTL)
+      });
+    });
+
+    it('should keep the start time when the same session refreshes its lock', () => {
+      const lock = createEditLock('a.md', 'alice', 'session-1', start);
+      const refreshed = createEditLock('a.md', 'alice', 'session-1', after(60_000), lock);
+
+      expect(refreshed.acquiredAt).toEqual(start);
+      expect(refreshed.refreshedAt).toEqual(after(60_000));
+      expect(refreshed.expiresAt).toEqual(after(60_000 + EDIT_LOCK_TTL));
+    });
+
+    it('should start over when taking a lock from another session or after it expired', () => {
+      const lock = createEditLock('a.md', 'alice', 'session-1', start);
+
+      expect(createEditLock('a.md', 'bob', 'session-2', after(1000), lock).acquiredAt).toEqual(after(1000));
+      expect(createEditLock('a.md', 'alice', 'session-1', after(EDIT_LOCK_TTL), lock).acquiredAt).toEqual(after(EDIT_LOCK_TTL));
+    });
+  });
+
+  describe('lock state', () => {
+    const lock = createEditLock('a.md', 'alice', 'session-1', start);
+
+    it('should tell expired and stale locks apart', () => {
+      expect(isEditLockStale(lock, after(EDIT_LOCK_STALE_AFTER - 1))).toBe(false);
+      expect(isEditLockStale(lock, after(EDIT_LOCK_STALE_AFTER))).toBe(true);
+      expect(isEditLockExpired(lock, after(EDIT_LOCK_STALE_AFTER))).toBe(false);
+      expect(isEditLockExpired(lock, after(EDIT_LOCK_TTL))).toBe(true);
+    });
+
+    it('should only report active locks of other sessions', () => {
+      expect(isLockedByOther(lock, 'session-2', after(1000))).toBe(true);
+      expect(isLockedByOther(lock, 'session-1', after(1000))).toBe(false);
+      expect(isLockedByOther(lock, 'session-2', after(EDIT_LOCK_TTL))).toBe(false);
+      expect(isLockedByOther(null, 'session-2')).toBe(false);
+    });
+  });
+
+  describe('parseEditLock', () => {
+    it('should read a lock stored as JSON', () => {
+      const lock = createEditLock('a.md', 'alice', 'session-1', start);
+
+      expect(parseEditLock(JSON.parse(JSON.stringify(lock)))).toEqual(lock);
+    });
+
+    it('should reject malformed locks', () => {
+      expect(parseEditLock(null)).toBeNull();
+      expect(parseEditLock({ path: 'a.md', username: 'alice' })).toBeNull();
+      expect(parseEditLock({
+        path: 'a.md',
+        username: 'alice',
+        sessionId: 'session-1',
+        acquiredAt: 'never',
+        refreshedAt: start.toISOString(),
+        expiresAt: start.toISOString()
+      })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Edit lock utilities
+ * Advisory locks telling editors that someone else is editing a page
+ */
+
+import type { EditLock } from '../types/index.js';
+
+// Locks outlive throttled timers in background tabs, which may fire only once a minute
+export const EDIT_LOCK_TTL = 10 * 60 * 1000;
+export const EDIT_LOCK_HEARTBEAT = 60 * 1000;
+// A lock missing several heartbeats is probably left by a closed or sleeping editor
+export const EDIT_LOCK_STALE_AFTER = 3 * EDIT_LOCK_HEARTBEAT;
+
+/**
+ * Create the lock of a session, or refresh it keeping the time editing started
+ */
+export function createEditLock(
+  path: string,
+  username: string,
+  sessionId: string,
+  now = new Date(),
+  previous?: EditLock | null
+): EditLock {
+  const refreshing = previous && previous.sessionId === sessionId && !isEditLockExpired(previous, now);
+
+  return {
+    path,
+    username,
+    sessionId,
+    acquiredAt: refreshing ? previous.acquiredAt : now,
+    refreshedAt: now,
+    expiresAt: new Date(now.getTime() + EDIT_LOCK_TTL)
+  };
+}
+
+export function isEditLockExpired(lock: EditLock, now = new Date()): boolean {
+  return lock.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Whether the lock has not been refreshed for a while, so admins may break it
+ */
+export function isEditLockStale(lock: EditLock, now = new Date()): boolean {
+  return now.getTime() - lock.refreshedAt.getTime() >= EDIT_LOCK_STALE_AFTER;
+}
+
+/**
+ * Whether another session holds a lock that has not expired
+ */
+export function isLockedByOther(lock: EditLock | null, sessionId: string, now = new Date()): lock is EditLock {
+  return !!lock && lock.sessionId !== sessionId && !isEditLockExpired(lock, now);
+}
+
+/**
+ * Read a lock stored as JSON, or null if it is malformed
+ */
+export function parseEditLock(value: unknown): EditLock | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.path !== 'string' || typeof record.username !== 'string' || typeof record.sessionId !== 'string') {
+    return null;
+  }
+
+  const acquiredAt = new Date(record.acquiredAt as string);
+  const refreshedAt = new Date(record.refreshedAt as string);
+  const expiresAt = new Date(record.expiresAt as string);
+  if ([acquiredAt, refreshedAt, expiresAt].some(date => isNaN(date.getTime()))) {
+    return null;
+  }
+
+  return { path: record.path, username: record.username, sessionId: record.sessionId, acquiredAt, refreshedAt, expiresAt };
+}
@@ -0,0 +1,36 @@
+/**
+ * File Reference Utilities Tests
+ * Tests for writing and resolving references to uploaded files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fileReference, parseFileReference, resolveFileReference } from './fileReferences.js';
+
+describe('File Reference Utilities', () => {
+  const urls: Record<string, string> = {
+    '1700000000000-diagram.png': 'https://bucket.s3.example.com/files%2F1700000000000-diagram.png',
+    '1700000000001-図.png': 'https://bucket.s3.example.com/files%2F1700000000001-%E5%9B%B3.png'
+  };
+  const resolve = (id: string) => urls[id] ?? null;
+
+  it('should round-trip file ids', () => {
+    expect(fileReference('1700000000000-diagram.png')).toBe('files/1700000000000-diagram.png');
+    expect(parseFileReference('files/1700000000000-diagram.png')).toBe('1700000000000-diagram.png');
+    expect(parseFileReference('files/1700000000001-%E5%9B%B3.png')).toBe('1700000000001-図.png');
+  });
+
+  it('should ignore other URLs', () => {
+    expect(parseFileReference('docs/files/a.png')).toBeNull();
+    expect(parseFileReference('files/')).toBeNull();
+    expect(parseFileReference('files/a/b.png')).toBeNull();
+    expect(parseFileReference('https://example.com/files/a.png')).toBeNull();
+  });
+
+  it('should resolve known files and leave everything else as written', () => {
+    expect(resolveFileReference('files/1700000000000-diagram.png', resolve)).toBe(urls['1700000000000-diagram.png']);
+    expect(resolveFileReference('files/1700000000001-%E5%9B%B3.png', resolve)).toBe(urls['1700000000001-図.png']);
+    expect(resolveFileReference('files/missing.png', resolve)).toBe('files/missing.png');
+    expect(resolveFileReference('files/1700000000000-diagram.png')).toBe('files/1700000000000-diagram.png');
+    expect(resolveFileReference('image.png', resolve)).toBe('image.png');
+  });
+});
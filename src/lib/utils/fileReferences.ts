@@ -0,0 +1,49 @@
+/**
+ * File reference utilities
+ * Wiki-relative `files/<id>` references to uploaded files, resolved to a URL when rendering
+ */
+
+const FILE_REFERENCE_PREFIX = 'files/';
+
+/**
+ * Maps an uploaded file id to its URL, or null for unknown files
+ */
+export type FileUrlResolver = (fileId: string) => string | null;
+
+/**
+ * Reference to an uploaded file as written in page content.
+ * It names the file rather than its bucket URL, so pages keep working when the bucket is
+ * only reachable with credentials, and the attachment lookup finds the file by its id.
+ */
+export function fileReference(fileId: string): string {
+  return FILE_REFERENCE_PREFIX + fileId;
+}
+
+/**
+ * File id of a `files/<id>` reference, or null for any other URL
+ */
+export function parseFileReference(url: string): string | null {
+  if (!url.startsWith(FILE_REFERENCE_PREFIX)) {
+    return null;
+  }
+
+  const id = url.slice(FILE_REFERENCE_PREFIX.length);
+  if (!id || /[/?#]/.test(id)) {
+    return null;
+  }
+
+  // Markdown renderers percent-encode destinations
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return id;
+  }
+}
+
+/**
+ * URL to load a link or image from: the file URL for known file references, otherwise `url` itself
+ */
+export function resolveFileReference(url: string, resolve?: FileUrlResolver): string {
+  const id = resolve ? parseFileReference(url) : null;
+  return (id !== null && resolve?.(id)) || url;
+}
@@ -7,6 +7,7 @@ import { describe, it, expect } from 'vitest';
 import {
   formatFileSize,
   formatDate,
+  formatTime,
   extractTitleFromMarkdown,
   generatePagePath,
   getBreadcrumbs
@@ -56,6 +57,14 @@ describe('Formatting Utilities', () => {
     });
   });
 
+  describe('formatTime', () => {
+    it('should format hours and minutes only', () => {
+      const date = new Date(2024, 0, 15, 9, 5);
+
+      expect(formatTime(date)).toBe('09:05');
+    });
+  });
+
   describe('extractTitleFromMarkdown', () => {
     it('should extract H1 title', () => {
       const content = '# Main Title\n\nSome content here.';
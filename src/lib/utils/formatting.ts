@@ -28,6 +28,16 @@ export function formatDate(date: Date): string {
   }).format(date);
 }
 
+/**
+ * Format the time of day, e.g. 10:02
+ */
+export function formatTime(date: Date): string {
+  return new Intl.DateTimeFormat('ja-JP', {
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(date);
+}
+
 /**
  * Extract title from markdown content
  */
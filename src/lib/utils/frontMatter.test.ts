@@ -0,0 +1,122 @@
+/**
+ * Front Matter Utilities Tests
+ * Tests for parsing, updating and title extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractFirstHeading,
+  extractPageTitle,
+  parseFrontMatter,
+  setFrontMatter,
+  stripFrontMatter
+} from './frontMatter.js';
+
+const PAGE = [
+  '---',
+  'title: Release Notes',
+  '# shown in the page list',
+  'tags: [release, ops]',
+  'aliases: Changelog, News',
+  'owner: alice',
+  '---',
+  '',
+  '# Heading',
+  ''
+].join('\n');
+
+describe('Front Matter Utilities', () => {
+  describe('parseFrontMatter', () => {
+    it('should split known properties, custom fields and body', () => {
+      const parsed = parseFrontMatter(PAGE);
+
+      expect(parsed.frontMatter).toEqual({
+        title: 'Release Notes',
+        tags: ['release', 'ops'],
+        aliases: ['Changelog', 'News'],
+        description: undefined,
+        template: undefined,
+        fields: { owner: 'alice' }
+      });
+      expect(parsed.body).toBe('# Heading\n');
+      expect(parsed.block + parsed.body).toBe(PAGE);
+      expect(parsed.error).toBeNull();
+    });
+
+    it('should leave pages without front matter untouched', () => {
+      const parsed = parseFrontMatter('# Title\n\ntags: not metadata');
+
+      expect(parsed.block).toBe('');
+      expect(parsed.body).toBe('# Title\n\ntags: not metadata');
+      expect(parsed.frontMatter.tags).toBeUndefined();
+    });
+
+    it('should not treat prose between horizontal rules as front matter', () => {
+      const content = '---\nJust a paragraph\n---\n\nMore text';
+      expect(parseFrontMatter(content).body).toBe(content);
+    });
+
+    it('should report YAML errors but still hide the block', () => {
+      const parsed = parseFrontMatter('---\ntags: [a, b\n---\nBody');
+
+      expect(parsed.error).toBeTruthy();
+      expect(parsed.body).toBe('Body');
+    });
+  });
+
+  describe('setFrontMatter', () => {
+    it('should keep unchanged keys, comments and the body byte for byte', () => {
+      const { frontMatter } = parseFrontMatter(PAGE);
+      expect(setFrontMatter(PAGE, frontMatter)).toBe(PAGE);
+    });
+
+    it('should update, add and remove properties', () => {
+      const { frontMatter } = parseFrontMatter(PAGE);
+      const updated = setFrontMatter(PAGE, {
+        ...frontMatter,
+        aliases: undefined,
+        description: 'What changed',
+        fields: {}
+      });
+
+      expect(updated).toBe(
+        [
+          '---',
+          'title: Release Notes',
+          '# shown in the page list',
+          'tags: [release, ops]',
+          'description: What changed',
+          '---',
+          '',
+          '# Heading',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should create and remove the block', () => {
+      const created = setFrontMatter('# Page', { tags: ['a'], fields: {} });
+
+      expect(created).toBe('---\ntags:\n  - a\n---\n\n# Page');
+      expect(setFrontMatter(created, { fields: {} })).toBe('# Page');
+    });
+  });
+
+  describe('stripFrontMatter', () => {
+    it('should return the markdown body', () => {
+      expect(stripFrontMatter(PAGE)).toBe('# Heading\n');
+    });
+  });
+
+  describe('extractPageTitle', () => {
+    it('should prefer the front matter title', () => {
+      expect(extractPageTitle(PAGE)).toBe('Release Notes');
+      expect(extractPageTitle('---\ntags: [a]\n---\n# From Heading')).toBe('From Heading');
+    });
+
+    it('should skip headings inside code blocks', () => {
+      expect(extractFirstHeading('```sh\n# install\n```\n\n# Real Title #')).toBe('Real Title');
+      expect(extractFirstHeading('~~~~\n# a\n~~~\n# b\n~~~~\n## Sub')).toBeNull();
+    });
+  });
+});
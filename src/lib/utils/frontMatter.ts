@@ -0,0 +1,204 @@
+/**
+ * YAML front matter utilities
+ * Parsing and updating of the `---` block at the top of a page
+ */
+
+import { Document, isMap, parseDocument } from 'yaml';
+
+/**
+ * Page properties stored in the front matter.
+ * Keys other than the known ones are kept in `fields`.
+ */
+export interface FrontMatter {
+  title?: string;
+  tags?: string[];
+  aliases?: string[];
+  description?: string;
+  template?: string;
+  fields: Record<string, unknown>;
+}
+
+export interface ParsedPageContent {
+  frontMatter: FrontMatter;
+  // All front matter values as parsed, including nested ones the known properties ignore
+  data: Record<string, unknown>;
+  // The front matter block as written, including delimiters and the blank lines after it
+  block: string;
+  // Markdown following the block
+  body: string;
+  // YAML syntax error; the block is still split off so it never renders as markdown
+  error: string | null;
+}
+
+export const FRONT_MATTER_KEYS = ['title', 'tags', 'aliases', 'description', 'template'] as const;
+
+const BLOCK_PATTERN = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)(?:[ \t]*\r?\n)*/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^ {0,3}#[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Split content into front matter and markdown body
+ */
+export function parseFrontMatter(content: string): ParsedPageContent {
+  const match = BLOCK_PATTERN.exec(content);
+  if (!match) {
+    return { frontMatter: { fields: {} }, data: {}, block: '', body: content, error: null };
+  }
+
+  const block = match[0];
+  const body = content.slice(block.length);
+  const document = parseDocument(match[1] ?? '');
+
+  if (document.errors.length > 0) {
+    return { frontMatter: { fields: {} }, data: {}, block, body, error: document.errors[0].message };
+  }
+  if (document.contents !== null && !isMap(document.contents)) {
+    // Prose between two horizontal rules rather than front matter
+    return { frontMatter: { fields: {} }, data: {}, block: '', body: content, error: null };
+  }
+
+  const data = document.toJS() ?? {};
+  return { frontMatter: toFrontMatter(data), data, block, body, error: null };
+}
+
+/**
+ * Markdown without the front matter block, for rendering and indexing
+ */
+export function stripFrontMatter(content: string): string {
+  return parseFrontMatter(content).body;
+}
+
+/**
+ * Rewrite a front matter block with new values.
+ * Unchanged keys keep their formatting and comments; an empty result removes the block.
+ */
+export function updateFrontMatterBlock(block: string, frontMatter: FrontMatter): string {
+  const match = BLOCK_PATTERN.exec(block);
+  const parsed = match ? parseDocument(match[1] ?? '') : null;
+  const document = parsed && parsed.errors.length === 0 && isMap(parsed.contents) ? parsed : new Document({});
+  const current = toFrontMatter(document.toJS() ?? {});
+
+  const values: Record<string, unknown> = { ...frontMatter.fields };
+  for (const key of FRONT_MATTER_KEYS) {
+    values[key] = frontMatter[key];
+  }
+
+  const previous: Record<string, unknown> = { ...current.fields };
+  for (const key of FRONT_MATTER_KEYS) {
+    previous[key] = current[key];
+  }
+
+  let changed = false;
+  for (const key of Object.keys(previous)) {
+    if ((!(key in values) || isEmptyValue(values[key])) && document.has(key)) {
+      document.delete(key);
+      changed = true;
+    }
+  }
+  for (const [key, value] of Object.entries(values)) {
+    if (!isEmptyValue(value) && !isEqual(previous[key], value)) {
+      document.set(key, value);
+      changed = true;
+    }
+  }
+
+  if (!changed) {
+    return block;
+  }
+  if (!isMap(document.contents) || document.contents.items.length === 0) {
+    return '';
+  }
+
+  // Keep the blank lines that separated the old block from the body
+  const separator = match ? /\n([ \t]*\r?\n)*$/.exec(block)?.[0] ?? '\n' : '\n\n';
+  return `---\n${document.toString({ flowCollectionPadding: false })}---${separator}`;
+}
+
+/**
+ * Replace the front matter of a page, leaving the body untouched
+ */
+export function setFrontMatter(content: string, frontMatter: FrontMatter): string {
+  const { block, body } = parseFrontMatter(content);
+  return updateFrontMatterBlock(block, frontMatter) + body;
+}
+
+/**
+ * Page title from the front matter, falling back to the first `# ` heading outside code blocks
+ */
+export function extractPageTitle(content: string): string | null {
+  const { frontMatter, body } = parseFrontMatter(content);
+  return frontMatter.title || extractFirstHeading(body);
+}
+
+/**
+ * First level-one ATX heading, skipping fenced code blocks
+ */
+export function extractFirstHeading(markdown: string): string | null {
+  let fence: string | null = null;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      return heading[1].trim();
+    }
+  }
+
+  return null;
+}
+
+// Internal helpers
+
+function toFrontMatter(data: Record<string, unknown>): FrontMatter {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!(FRONT_MATTER_KEYS as readonly string[]).includes(key)) {
+      fields[key] = value;
+    }
+  }
+
+  return {
+    title: toText(data.title),
+    tags: toList(data.tags),
+    aliases: toList(data.aliases),
+    description: toText(data.description),
+    template: toText(data.template),
+    fields
+  };
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined || typeof value === 'object') {
+    return undefined;
+  }
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+/**
+ * Accept both YAML lists and comma separated strings
+ */
+function toList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [value];
+  const list = items.map(toText).filter((item): item is string => !!item);
+  return list.length > 0 ? [...new Set(list)] : undefined;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
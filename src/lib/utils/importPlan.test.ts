@@ -0,0 +1,119 @@
+/**
+ * Import Planning Utilities Tests
+ * Tests for mapping imported folders to pages and rewriting their references
+ */
+
+import { describe, it, expect } from 'vitest';
+import { strToU8 } from 'fflate';
+import {
+  importContentType,
+  normalizeImportSources,
+  planImport,
+  rewriteImportReferences,
+  toImportPagePath,
+  type ImportSource
+} from './importPlan.js';
+import type { WikiPageMeta } from '../types/index.js';
+
+function source(path: string, content = ''): ImportSource {
+  return { path, data: strToU8(content) };
+}
+
+function meta(path: string): WikiPageMeta {
+  return { path, title: path, createdAt: new Date(), updatedAt: new Date(), author: 'alice' };
+}
+
+const VAULT = [
+  source('Home.md', '# Home\n\n![[diagram.png]]\n\nSee [setup](guides/Setup.md#install) and [[guides/Setup]].'),
+  source('guides/Setup.md', '![Screen](../attachments/screen%20shot.png "Screen")\n\n[Back](../Home.md)\n\n![[Home]]'),
+  source('attachments/diagram.png', '\x89PNG'),
+  source('attachments/screen shot.png', '\x89PNG'),
+  source('attachments/unused.pdf', '%PDF')
+];
+
+describe('Import Planning Utilities', () => {
+  describe('normalizeImportSources', () => {
+    it('should strip a wrapping folder and ignored files', () => {
+      const sources = normalizeImportSources([
+        source('vault\\Home.md'),
+        source('vault/.obsidian/app.json'),
+        source('vault/notes/'),
+        source('vault/notes/a.md'),
+        source('vault/.DS_Store')
+      ]);
+
+      expect(sources.map(entry => entry.path)).toEqual(['Home.md', 'notes/a.md']);
+    });
+
+    it('should keep paths when files sit at the root', () => {
+      const sources = normalizeImportSources([source('Home.md'), source('notes/a.md')]);
+
+      expect(sources.map(entry => entry.path)).toEqual(['Home.md', 'notes/a.md']);
+    });
+  });
+
+  describe('toImportPagePath', () => {
+    it('should keep folders below the destination', () => {
+      expect(toImportPagePath('guides/Setup.markdown')).toBe('guides/Setup.md');
+      expect(toImportPagePath('guides/What?.md', '/imported/')).toBe('imported/guides/What_.md');
+    });
+  });
+
+  describe('importContentType', () => {
+    it('should guess the content type from the extension', () => {
+      expect(importContentType('a/Photo.JPG')).toBe('image/jpeg');
+      expect(importContentType('data.bin')).toBe('application/octet-stream');
+    });
+  });
+
+  describe('planImport', () => {
+    it('should report pages, referenced attachments and conflicts', () => {
+      const plan = planImport(VAULT, [meta('docs/Home.md')], { destination: 'docs' });
+
+      expect(plan.pages).toEqual([
+        { sourcePath: 'Home.md', path: 'docs/Home.md', conflict: true },
+        { sourcePath: 'guides/Setup.md', path: 'docs/guides/Setup.md', conflict: false }
+      ]);
+      expect(plan.assets).toEqual([
+        { sourcePath: 'attachments/diagram.png', referencedBy: ['docs/Home.md'] },
+        { sourcePath: 'attachments/screen shot.png', referencedBy: ['docs/guides/Setup.md'] }
+      ]);
+      expect(plan.skipped).toEqual(['attachments/unused.pdf']);
+      expect(plan.missing).toEqual([]);
+    });
+
+    it('should report references to missing files', () => {
+      const plan = planImport([source('a.md', '![](img/missing.png) [b](b.md) [site](https://example.com/x.png)')], []);
+
+      expect(plan.missing).toEqual([
+        { page: 'a.md', reference: 'img/missing.png' },
+        { page: 'a.md', reference: 'b.md' }
+      ]);
+    });
+  });
+
+  describe('rewriteImportReferences', () => {
+    const plan = planImport(VAULT, [], { destination: 'docs' });
+    const fileUrls = {
+      'attachments/diagram.png': 'files/1-diagram.png',
+      'attachments/screen shot.png': 'files/2-screen_shot.png'
+    };
+
+    it('should point embeds and folder links to the imported files and pages', () => {
+      expect(rewriteImportReferences(new TextDecoder().decode(VAULT[0].data), 'Home.md', plan, fileUrls)).toBe(
+        '# Home\n\n![diagram.png](files/1-diagram.png)\n\n' +
+          'See [setup](guides/Setup.md#install) and [[/docs/guides/Setup|guides/Setup]].'
+      );
+    });
+
+    it('should rewrite relative images and turn embedded notes into links', () => {
+      expect(rewriteImportReferences(new TextDecoder().decode(VAULT[1].data), 'guides/Setup.md', plan, fileUrls)).toBe(
+        '![Screen](files/2-screen_shot.png "Screen")\n\n[Back](../Home.md)\n\n[[Home]]'
+      );
+    });
+
+    it('should keep references to files that were not uploaded', () => {
+      expect(rewriteImportReferences('![[diagram.png]]', 'Home.md', plan, {})).toBe('![[diagram.png]]');
+    });
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Import planning utilities
+ * Mapping of Markdown folders, ZIP archives and Obsidian vaults to wiki pages and attachments
+ */
+
+import type { WikiPageMeta } from '../types/index.js';
+import { parseWikiLinks, type WikiLink } from './wikiLinks.js';
+
+/**
+ * A file read from the imported folder or archive, with its path relative to the import root
+ */
+export interface ImportSource {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ImportPagePlan {
+  // Path inside the imported folder
+  sourcePath: string;
+  // Wiki page path the file is imported to
+  path: string;
+  // A page already exists at `path`
+  conflict: boolean;
+}
+
+export interface ImportAssetPlan {
+  sourcePath: string;
+  // Paths of the imported pages referencing the file
+  referencedBy: string[];
+}
+
+export interface ImportPlan {
+  pages: ImportPagePlan[];
+  // Files uploaded as attachments because an imported page references them
+  assets: ImportAssetPlan[];
+  // Relative references that point to files missing from the import
+  missing: Array<{ page: string; reference: string }>;
+  // Files that are neither pages nor referenced by a page
+  skipped: string[];
+}
+
+export interface ImportPlanOptions {
+  // Folder the imported pages are placed in; the wiki root when empty
+  destination?: string;
+}
+
+/**
+ * Where a reference in an imported page points to, by source path
+ */
+type ImportReference = { kind: 'page' | 'asset'; sourcePath: string } | { kind: 'missing' } | null;
+
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]\n]*)\]\(\s*(?:<([^>\n]+)>|([^)\s]+))((?:\s+["'][^"'\n]*["'])?\s*)\)/g;
+const EMBED_PATTERN = /!\[\[([^\[\]\n]+)\]\]/g;
+const URL_SCHEME_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+// Editor settings, version control and OS metadata that never belong in the wiki
+const IGNORED_SEGMENT = /^(?:\..*|__MACOSX|Thumbs\.db)$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip',
+  mp4: 'video/mp4',
+  mp3: 'audio/mpeg'
+};
+
+/**
+ * Normalize source paths to forward slashes, drop ignored files and empty entries,
+ * and strip a folder that wraps everything, like the folder a ZIP was made from.
+ */
+export function normalizeImportSources(sources: ImportSource[]): ImportSource[] {
+  const normalized = sources
+    .map(source => ({ ...source, path: source.path.replace(/\\/g, '/').replace(/^\/+/, '') }))
+    .filter(source => source.path && !source.path.endsWith('/'))
+    .filter(source => !source.path.split('/').some(segment => IGNORED_SEGMENT.test(segment)));
+
+  const roots = new Set(normalized.map(source => (source.path.includes('/') ? source.path.split('/')[0] : '')));
+  if (roots.size !== 1 || roots.has('')) {
+    return normalized;
+  }
+
+  const [root] = roots;
+  return normalized.map(source => ({ ...source, path: source.path.slice(root.length + 1) }));
+}
+
+/**
+ * Wiki page path for an imported Markdown file: folders are kept as page folders
+ * below `destination`, and characters not allowed in page paths are replaced.
+ */
+export function toImportPagePath(sourcePath: string, destination = ''): string {
+  const folder = destination.replace(/^\/+|\/+$/g, '');
+  const path = sourcePath.replace(MARKDOWN_EXTENSION, '.md').replace(/[<>:"|?*]/g, '_');
+  return folder ? `${folder}/${path}` : path;
+}
+
+/**
+ * Content type of an imported attachment, guessed from its extension
+ */
+export function importContentType(path: string): string {
+  const extension = path.split('.').pop()!.toLowerCase();
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Work out which pages and attachments an import creates and which pages it would overwrite
+ */
+export function planImport(
+  sources: ImportSource[],
+  existingPages: WikiPageMeta[],
+  options: ImportPlanOptions = {}
+): ImportPlan {
+  const index = createSourceIndex(sources.map(source => source.path));
+  const existing = new Set(existingPages.map(page => page.path));
+  const pages: ImportPagePlan[] = [];
+  const assets = new Map<string, string[]>();
+  const missing: ImportPlan['missing'] = [];
+  const skipped: string[] = [];
+  const planned = new Set<string>();
+
+  for (const source of sources) {
+    if (!MARKDOWN_EXTENSION.test(source.path)) continue;
+
+    const path = toImportPagePath(source.path, options.destination);
+    if (planned.has(path)) {
+      skipped.push(source.path);
+      continue;
+    }
+    planned.add(path);
+    pages.push({ sourcePath: source.path, path, conflict: existing.has(path) });
+
+    forEachReference(new TextDecoder().decode(source.data), source.path, index, (reference, written) => {
+      if (reference?.kind === 'missing') {
+        missing.push({ page: path, reference: written });
+      } else if (reference?.kind === 'asset') {
+        const referencedBy = assets.get(reference.sourcePath) ?? [];
+        if (!referencedBy.includes(path)) referencedBy.push(path);
+        assets.set(reference.sourcePath, referencedBy);
+      }
+    });
+  }
+
+  for (const source of sources) {
+    if (!MARKDOWN_EXTENSION.test(source.path) && !assets.has(source.path)) {
+      skipped.push(source.path);
+    }
+  }
+
+  return {
+    pages,
+    assets: [...assets].map(([sourcePath, referencedBy]) => ({ sourcePath, referencedBy })),
+    missing,
+    skipped
+  };
+}
+
+/**
+ * Rewrite the references of an imported page: links to imported pages point to their
+ * new paths, attachments point to the uploaded files, and Obsidian embeds become
+ * Markdown images. `fileUrls` maps asset source paths to the references of the uploaded
+ * files (`files/<id>`); references to attachments that were not uploaded are kept as written.
+ */
+export function rewriteImportReferences(
+  content: string,
+  sourcePath: string,
+  plan: ImportPlan,
+  fileUrls: Record<string, string>
+): string {
+  const pagePaths = new Map(plan.pages.map(page => [page.sourcePath, page.path]));
+  const index = createSourceIndex([...pagePaths.keys(), ...plan.assets.map(asset => asset.sourcePath)]);
+  const fromPath = pagePaths.get(sourcePath) ?? toImportPagePath(sourcePath);
+
+  const withEmbeds = content.replace(EMBED_PATTERN, (match, inner: string) => {
+    const link = parseWikiLinks(`[[${inner}]]`)[0];
+    if (!link) return match;
+
+    const reference = resolveEmbed(link, sourcePath, index);
+    if (reference?.kind === 'asset') {
+      const url = fileUrls[reference.sourcePath];
+      const alt = link.label !== link.target && !/^\d+(x\d+)?$/.test(link.label) ? link.label : fileName(link.target);
+      return url ? `![${alt}](${url})` : match;
+    }
+    // Embedded notes are not supported, so they become plain links
+    return match.slice(1);
+  });
+
+  const withWikiLinks = replaceFolderWikiLinks(withEmbeds, sourcePath, pagePaths, index, fileUrls);
+
+  return withWikiLinks.replace(
+    MARKDOWN_LINK_PATTERN,
+    (match, bang: string, text: string, angled?: string, plain?: string, title = '') => {
+      const destination = angled ?? plain!;
+      const reference = resolveMarkdownDestination(destination, sourcePath, index);
+
+      let rewritten: string | undefined;
+      if (reference?.kind === 'asset') {
+        rewritten = fileUrls[reference.sourcePath];
+      } else if (reference?.kind === 'page') {
+        const hashIndex = destination.indexOf('#');
+        const hash = hashIndex === -1 ? '' : destination.slice(hashIndex);
+        rewritten = relativePath(folderOf(fromPath), pagePaths.get(reference.sourcePath)!) + hash;
+      }
+
+      if (!rewritten) return match;
+      const formatted = angled !== undefined ? `<${rewritten}>` : rewritten.replace(/[ ()]/g, encodeURIComponent);
+      return `${bang}[${text}](${formatted}${title})`;
+    }
+  );
+}
+
+// Internal helpers
+
+interface SourceIndex {
+  // Lower-cased path to source path
+  byPath: Map<string, string>;
+  // Lower-cased file name to source paths, shortest path first
+  byName: Map<string, string[]>;
+}
+
+function createSourceIndex(paths: string[]): SourceIndex {
+  const byPath = new Map<string, string>();
+  const byName = new Map<string, string[]>();
+
+  for (const path of [...paths].sort((a, b) => a.length - b.length)) {
+    byPath.set(path.toLowerCase(), path);
+    const name = fileName(path).toLowerCase();
+    byName.set(name, [...(byName.get(name) ?? []), path]);
+  }
+
+  return { byPath, byName };
+}
+
+/**
+ * Call `visit` for every local reference in a page, with the reference as written
+ */
+function forEachReference(
+  content: string,
+  sourcePath: string,
+  index: SourceIndex,
+  visit: (reference: ImportReference, written: string) => void
+): void {
+  for (const match of content.matchAll(EMBED_PATTERN)) {
+    const link = parseWikiLinks(`[[${match[1]}]]`)[0];
+    if (link) visit(resolveEmbed(link, sourcePath, index), link.target);
+  }
+
+  for (const link of parseWikiLinks(content)) {
+    // Embeds were handled above
+    if (hasAttachmentExtension(link.target) && content[link.index - 1] !== '!') {
+      visit(resolveVaultPath(link.target, sourcePath, index), link.target);
+    }
+  }
+
+  for (const match of content.matchAll(MARKDOWN_LINK_PATTERN)) {
+    const destination = match[3] ?? match[4];
+    visit(resolveMarkdownDestination(destination, sourcePath, index), destination);
+  }
+}
+
+/**
+ * Resolve an Obsidian embed; embeds without an extension refer to notes
+ */
+function resolveEmbed(link: WikiLink, sourcePath: string, index: SourceIndex): ImportReference {
+  return hasAttachmentExtension(link.target) ? resolveVaultPath(link.target, sourcePath, index) : null;
+}
+
+/**
+ * Resolve a relative Markdown link or image destination.
+ * Links to other pages or to external URLs are not references to imported files.
+ */
+function resolveMarkdownDestination(destination: string, sourcePath: string, index: SourceIndex): ImportReference {
+  if (URL_SCHEME_PATTERN.test(destination) || destination.startsWith('#') || destination.startsWith('/')) {
+    return null;
+  }
+
+  let target = destination.split('#')[0].split('?')[0];
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep malformed escapes as written
+  }
+
+  // Extensionless destinations are wiki routes or anchors rather than files
+  if (!/\.[a-z0-9]+$/i.test(target)) {
+    return null;
+  }
+
+  return resolveVaultPath(target, sourcePath, index);
+}
+
+/**
+ * Find a file by path relative to the page, by path from the import root,
+ * or, like Obsidian's shortest-path links, by file name anywhere in the import
+ */
+function resolveVaultPath(target: string, sourcePath: string, index: SourceIndex): ImportReference {
+  const folder = folderOf(sourcePath);
+  const candidates = [normalizePath(folder ? `${folder}/${target}` : target), normalizePath(target)];
+
+  for (const candidate of candidates) {
+    const match = candidate && index.byPath.get(candidate.toLowerCase());
+    if (match) return toReference(match);
+  }
+
+  const byName = index.byName.get(fileName(target).toLowerCase());
+  return byName ? toReference(byName[0]) : { kind: 'missing' };
+}
+
+function toReference(sourcePath: string): ImportReference {
+  return { kind: MARKDOWN_EXTENSION.test(sourcePath) ? 'page' : 'asset', sourcePath };
+}
+
+/**
+ * Point wiki links with a folder at the imported page, since the destination folder
+ * changes their paths, and turn links to attachments into Markdown links
+ */
+function replaceFolderWikiLinks(
+  content: string,
+  sourcePath: string,
+  pagePaths: Map<string, string>,
+  index: SourceIndex,
+  fileUrls: Record<string, string>
+): string {
+  let result = '';
+  let position = 0;
+
+  for (const link of parseWikiLinks(content)) {
+    let replacement: string | null = null;
+
+    if (hasAttachmentExtension(link.target)) {
+      const reference = resolveVaultPath(link.target, sourcePath, index);
+      const url = reference?.kind === 'asset' ? fileUrls[reference.sourcePath] : undefined;
+      replacement = url ? `[${link.label}](${url})` : null;
+    } else if (link.target.includes('/')) {
+      const reference = resolveVaultPath(`${link.target.replace(/^\/+/, '')}.md`, '', index);
+      const path = reference?.kind === 'page' ? pagePaths.get(reference.sourcePath) : undefined;
+      const target = path && `/${path.replace(/\.md$/i, '')}`;
+      if (target && target.toLowerCase() !== `/${link.target.replace(/^\/+/, '')}`.toLowerCase()) {
+        const anchor = link.anchor ? `#${link.anchor}` : '';
+        const label = link.label === `${link.target}${anchor}` ? link.target : link.label;
+        replacement = `[[${target}${anchor}|${label}]]`;
+      }
+    }
+
+    if (replacement !== null) {
+      result += content.slice(position, link.index) + replacement;
+      position = link.index + link.raw.length;
+    }
+  }
+
+  return result + content.slice(position);
+}
+
+function hasAttachmentExtension(target: string): boolean {
+  return /\.[a-z0-9]+$/i.test(target) && !MARKDOWN_EXTENSION.test(target);
+}
+
+function fileName(path: string): string {
+  return path.split('/').pop()!;
+}
+
+function folderOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+function relativePath(folder: string, path: string): string {
+  const from = folder ? folder.split('/') : [];
+  const to = path.split('/');
+
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+}
+
+/**
+ * Resolve `.` and `..` segments; null when the path leaves the import root
+ */
+function normalizePath(path: string): string | null {
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
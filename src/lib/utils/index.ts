@@ -17,6 +17,7 @@ export {
 export {
   formatFileSize,
   formatDate,
+  formatTime,
   extractTitleFromMarkdown,
   generatePagePath,
   getBreadcrumbs
@@ -0,0 +1,157 @@
+/**
+ * Link Graph Utilities Tests
+ * Tests for extracting outgoing links and finding backlinks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyLinkChanges, extractPageLinks, findBacklinks, rewritePageLinks } from './linkGraph.js';
+import type { WikiPageMeta } from '../types/index.js';
+
+function meta(path: string, title: string): WikiPageMeta {
+  return {
+    path,
+    title,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    author: 'test'
+  };
+}
+
+const pages: WikiPageMeta[] = [
+  meta('index.md', 'Welcome'),
+  meta('docs/setup.md', 'Setup Guide'),
+  meta('docs/index.md', 'Documentation')
+];
+
+describe('Link Graph Utilities', () => {
+  describe('extractPageLinks', () => {
+    it('should resolve wiki links against the page list', () => {
+      const links = extractPageLinks('See [[Setup Guide]] and [[index|home]].', 'docs/faq.md', pages);
+
+      expect(links).toEqual(['docs/index.md', 'docs/setup.md']);
+    });
+
+    it('should record unresolved wiki links at their creation path', () => {
+      expect(extractPageLinks('[[New Page]]', 'docs/setup.md', pages)).toEqual(['docs/new-page.md']);
+    });
+
+    it('should follow relative markdown links and view links', () => {
+      const content = [
+        '[setup](setup.md)',
+        '[home](../index.md#intro)',
+        '[view](/view?path=docs%2Findex.md)',
+        '[spaced](<other page.md>)'
+      ].join('\n');
+
+      expect(extractPageLinks(content, 'docs/faq.md', pages)).toEqual([
+        'docs/index.md',
+        'docs/other page.md',
+        'docs/setup.md',
+        'index.md'
+      ]);
+    });
+
+    it('should ignore external links, anchors, files and self links', () => {
+      const content = [
+        '[site](https://example.com/page.md)',
+        '[anchor](#section)',
+        '![image](image.png)',
+        '[self](faq.md)',
+        '[[faq]]'
+      ].join('\n');
+
+      expect(extractPageLinks(content, 'docs/faq.md', [...pages, meta('docs/faq.md', 'FAQ')])).toEqual([]);
+    });
+
+    it('should ignore links in code spans and fenced code', () => {
+      const content = 'Write `[[Setup Guide]]` for\n\n```\n[x](setup.md)\n```\n\nthe [[index]] link.';
+
+      expect(extractPageLinks(content, 'docs/faq.md', pages)).toEqual(['docs/index.md']);
+    });
+
+    it('should list each target once', () => {
+      expect(extractPageLinks('[[Setup Guide]] [[docs/setup]] [x](setup.md)', 'docs/a.md', pages)).toEqual([
+        'docs/setup.md'
+      ]);
+    });
+  });
+
+  describe('applyLinkChanges', () => {
+    it('should replace and remove entries without mutating the input', () => {
+      const links = { 'a.md': ['b.md'], 'c.md': ['a.md'] };
+      const next = applyLinkChanges(links, { 'a.md': ['c.md'], 'c.md': null, 'd.md': [] });
+
+      expect(next).toEqual({ 'a.md': ['c.md'] });
+      expect(links).toEqual({ 'a.md': ['b.md'], 'c.md': ['a.md'] });
+    });
+  });
+
+  describe('findBacklinks', () => {
+    it('should return the pages linking to a path', () => {
+      const links = { 'a.md': ['b.md', 'c.md'], 'c.md': ['b.md'], 'b.md': ['b.md', 'a.md'] };
+
+      expect(findBacklinks(links, 'b.md')).toEqual(['a.md', 'c.md']);
+      expect(findBacklinks(links, 'missing.md')).toEqual([]);
+    });
+  });
+
+  describe('rewritePageLinks', () => {
+    const moves = { 'docs/setup.md': 'guides/install.md' };
+
+    it('should point wiki links at the new path and keep their labels', () => {
+      const content = 'See [[setup]], [[/docs/setup#Step 2|step two]] and [[index]].';
+
+      expect(rewritePageLinks(content, 'docs/faq.md', pages, moves)).toBe(
+        'See [[/guides/install|setup]], [[/guides/install#Step 2|step two]] and [[index]].'
+      );
+    });
+
+    it('should leave wiki links that still resolve alone', () => {
+      const content = 'See [[Setup Guide]].';
+      expect(rewritePageLinks(content, 'docs/faq.md', pages, moves)).toBe(content);
+    });
+
+    it('should rewrite markdown links in their original style', () => {
+      const content = [
+        '[a](setup.md#top)',
+        '[b](/docs/setup.md)',
+        '[c](/view?path=docs%2Fsetup.md)',
+        '[d](<../docs/setup.md>)',
+        '[e](index.md)'
+      ].join('\n');
+
+      expect(rewritePageLinks(content, 'docs/faq.md', pages, moves)).toBe(
+        [
+          '[a](../guides/install.md#top)',
+          '[b](/guides/install.md)',
+          '[c](/view?path=guides%2Finstall.md)',
+          '[d](<../guides/install.md>)',
+          '[e](index.md)'
+        ].join('\n')
+      );
+    });
+
+    it('should leave links in code spans and fenced code alone', () => {
+      const content = [
+        'Use `[[setup]]` or ``[x](setup.md)`` like [[setup]].',
+        '```md',
+        '[[setup]] [y](setup.md)',
+        '```',
+        '~~~',
+        '[[setup]]'
+      ].join('\n');
+
+      expect(rewritePageLinks(content, 'docs/faq.md', pages, moves)).toBe(
+        content.replace('like [[setup]]', 'like [[/guides/install|setup]]')
+      );
+    });
+
+    it('should fix relative links of the moved page itself', () => {
+      const content = '[[index]] and [home](../index.md) and [[Missing]]';
+
+      expect(rewritePageLinks(content, 'docs/setup.md', pages, moves)).toBe(
+        '[[/docs/index|index]] and [home](../index.md) and [[Missing]]'
+      );
+    });
+  });
+});
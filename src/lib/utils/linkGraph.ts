@@ -0,0 +1,286 @@
+/**
+ * Link graph utilities
+ * Extraction of outgoing page links and lookup of backlinks
+ */
+
+import type { WikiPageMeta } from '../types/index.js';
+import { parseWikiLinks, resolveWikiLinkTarget, wikiLinkToPath, type WikiLink } from './wikiLinks.js';
+
+/**
+ * Outgoing links per page path
+ */
+export type PageLinks = Record<string, string[]>;
+
+const MARKDOWN_LINK_PATTERN = /\]\(\s*(?:<([^>\n]+)>|([^)\s]+))(?:\s+["'][^"']*["'])?\s*\)/g;
+const URL_SCHEME_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+const VIEW_ROUTE_PATTERN = /^\/(?:view|edit)\?(.*)$/;
+const FENCE_PATTERN = /^[ \t]{0,3}(`{3,}|~{3,})/;
+const INLINE_CODE_PATTERN = /(?<!`)(`+)(?!`).*?[^`]\1(?!`)/g;
+
+/**
+ * Collect the pages linked from markdown content, leaving out links in code.
+ * Wiki links that do not resolve are recorded at the path they would be created at,
+ * so backlinks show up as soon as the missing page is created.
+ */
+export function extractPageLinks(content: string, fromPath: string, pages: WikiPageMeta[]): string[] {
+  const links = new Set<string>();
+  const code = findCodeRanges(content);
+
+  for (const link of parseWikiLinks(content)) {
+    if (isInRanges(code, link.index)) continue;
+    links.add(resolveWikiLinkTarget(link.target, pages, fromPath) ?? wikiLinkToPath(link.target, fromPath));
+  }
+
+  for (const match of content.matchAll(MARKDOWN_LINK_PATTERN)) {
+    if (isInRanges(code, match.index ?? 0)) continue;
+    const target = markdownLinkToPath(match[1] ?? match[2], fromPath);
+    if (target) {
+      links.add(target);
+    }
+  }
+
+  links.delete(fromPath);
+  return [...links].sort();
+}
+
+/**
+ * Apply per-page link changes; `null` removes the page from the graph
+ */
+export function applyLinkChanges(links: PageLinks, changes: Record<string, string[] | null>): PageLinks {
+  const next: PageLinks = { ...links };
+
+  for (const [path, targets] of Object.entries(changes)) {
+    if (targets && targets.length > 0) {
+      next[path] = targets;
+    } else {
+      delete next[path];
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Paths of the pages linking to `path`
+ */
+export function findBacklinks(links: PageLinks, path: string): string[] {
+  return Object.keys(links)
+    .filter(source => source !== path && links[source].includes(path))
+    .sort();
+}
+
+/**
+ * Rewrite the links of a page after pages were moved.
+ * `moves` maps old paths to new ones and `pages` is the page list before the move.
+ * Only links to existing pages whose target would change are rewritten; this includes
+ * folder-relative links of the page itself when it is one of the moved pages.
+ */
+export function rewritePageLinks(
+  content: string,
+  fromPath: string,
+  pages: WikiPageMeta[],
+  moves: Record<string, string>
+): string {
+  const newFromPath = moves[fromPath] ?? fromPath;
+  const existing = new Set(pages.map(page => page.path));
+  const movedPages = pages.map(page => (moves[page.path] ? { ...page, path: moves[page.path] } : page));
+
+  const desiredTarget = (oldTarget: string | null): string | null =>
+    oldTarget && existing.has(oldTarget) ? moves[oldTarget] ?? oldTarget : null;
+
+  const code = findCodeRanges(content);
+  const withWikiLinks = replaceWikiLinks(content, link => {
+    if (isInRanges(code, link.index)) {
+      return null;
+    }
+    const target = desiredTarget(resolveWikiLinkTarget(link.target, pages, fromPath));
+    if (!target || resolveWikiLinkTarget(link.target, movedPages, newFromPath) === target) {
+      return null;
+    }
+    return formatWikiLink(link, target, newFromPath);
+  });
+
+  // Rewriting wiki links does not move code spans and fences across lines
+  const codeAfterWikiLinks = findCodeRanges(withWikiLinks);
+  return withWikiLinks.replace(
+    MARKDOWN_LINK_PATTERN,
+    (match, angled: string | undefined, plain: string | undefined, offset: number) => {
+      if (isInRanges(codeAfterWikiLinks, offset)) {
+        return match;
+      }
+      const destination = angled ?? plain!;
+      const target = desiredTarget(markdownLinkToPath(destination, fromPath));
+      if (!target || markdownLinkToPath(destination, newFromPath) === target) {
+        return match;
+      }
+
+      const rewritten = formatMarkdownDestination(destination, target, newFromPath);
+      const replacement =
+        angled !== undefined ? `<${rewritten}>` : rewritten.replace(/[ ()]/g, encodeURIComponent);
+      return match.replace(angled !== undefined ? `<${angled}>` : destination, replacement);
+    }
+  );
+}
+
+/**
+ * Replace wiki links; the callback returns the new source text, or null to keep a link
+ */
+function replaceWikiLinks(content: string, replace: (link: WikiLink) => string | null): string {
+  let result = '';
+  let position = 0;
+
+  for (const link of parseWikiLinks(content)) {
+    const replacement = replace(link);
+    if (replacement !== null) {
+      result += content.slice(position, link.index) + replacement;
+      position = link.index + link.raw.length;
+    }
+  }
+
+  return result + content.slice(position);
+}
+
+/**
+ * Source ranges of fenced code blocks and inline code spans, where links are only text.
+ * An unclosed fence runs to the end of the content, as in the rendered page.
+ */
+function findCodeRanges(content: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let fence: { marker: string; start: number } | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const end = offset + line.length;
+    const marker = FENCE_PATTERN.exec(line)?.[1];
+
+    if (fence) {
+      // A closing fence uses the same character, is at least as long and has no info string
+      const closes =
+        marker &&
+        marker[0] === fence.marker[0] &&
+        marker.length >= fence.marker.length &&
+        !line.trim().slice(marker.length);
+      if (closes) {
+        ranges.push([fence.start, end]);
+        fence = null;
+      }
+    } else if (marker) {
+      fence = { marker, start: offset };
+    } else {
+      for (const match of line.matchAll(INLINE_CODE_PATTERN)) {
+        const start = offset + (match.index ?? 0);
+        ranges.push([start, start + match[0].length]);
+      }
+    }
+
+    offset = end + 1;
+  }
+
+  if (fence) {
+    ranges.push([fence.start, content.length]);
+  }
+  return ranges;
+}
+
+function isInRanges(ranges: Array<[number, number]>, index: number): boolean {
+  return ranges.some(([start, end]) => index >= start && index < end);
+}
+
+/**
+ * Wiki link to `path` that keeps the visible label of the original link.
+ * Pages in the same folder are linked by name, others by absolute path.
+ */
+function formatWikiLink(link: WikiLink, path: string, fromPath: string): string {
+  const name = path.replace(/\.md$/i, '');
+  const target = folderOf(path) === folderOf(fromPath) ? name.split('/').pop()! : `/${name}`;
+  const anchor = link.anchor ? `#${link.anchor}` : '';
+  const label = link.label === `${target}${anchor}` ? '' : `|${link.label}`;
+  return `[[${target}${anchor}${label}]]`;
+}
+
+/**
+ * Markdown link destination for `path` in the style of the original destination
+ */
+function formatMarkdownDestination(destination: string, path: string, fromPath: string): string {
+  const hashIndex = destination.indexOf('#');
+  const hash = hashIndex === -1 ? '' : destination.slice(hashIndex);
+
+  if (VIEW_ROUTE_PATTERN.test(destination)) {
+    return destination.replace(/([?&]path=)[^&#]*/, `$1${encodeURIComponent(path)}`);
+  }
+  if (destination.startsWith('/')) {
+    return `/${path}${hash}`;
+  }
+  return relativePath(folderOf(fromPath), path) + hash;
+}
+
+function relativePath(folder: string, path: string): string {
+  const from = folder ? folder.split('/') : [];
+  const to = path.split('/');
+
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+}
+
+function folderOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Map a markdown link destination to a page path.
+ * Handles relative `.md` links and links to the view/edit routes; everything else is ignored.
+ */
+function markdownLinkToPath(destination: string, fromPath: string): string | null {
+  if (URL_SCHEME_PATTERN.test(destination) || destination.startsWith('#')) {
+    return null;
+  }
+
+  const route = VIEW_ROUTE_PATTERN.exec(destination);
+  if (route) {
+    const path = new URLSearchParams(route[1].split('#')[0]).get('path');
+    return path ? normalizePath(path) : null;
+  }
+
+  let target = destination.split('#')[0].split('?')[0];
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep malformed escapes as written
+  }
+
+  if (!/\.md$/i.test(target)) {
+    return null;
+  }
+
+  if (target.startsWith('/')) {
+    return normalizePath(target);
+  }
+
+  const index = fromPath.lastIndexOf('/');
+  const folder = index === -1 ? '' : fromPath.slice(0, index);
+  return normalizePath(folder ? `${folder}/${target}` : target);
+}
+
+/**
+ * Resolve `.` and `..` segments and strip leading slashes
+ */
+function normalizePath(path: string): string | null {
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.length > 0 ? segments.join('/') : null;
+}
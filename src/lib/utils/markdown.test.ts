@@ -0,0 +1,127 @@
+/**
+ * Markdown Rendering Tests
+ * Tests for CommonMark output and the GFM extensions used by the wiki
+ */
+
+import { describe, it, expect } from 'vitest';
+import { markdownToHTML } from './markdown.js';
+
+describe('Markdown Rendering', () => {
+  describe('CommonMark', () => {
+    it('should render headings, emphasis and paragraphs', () => {
+      const html = markdownToHTML('# Title\n\nSome *emphasis* and **strong** text.');
+
+      expect(html).toContain('<h1>Title</h1>');
+      expect(html).toContain('<p>Some <em>emphasis</em> and <strong>strong</strong> text.</p>');
+    });
+
+    it('should keep nested lists and code blocks intact', () => {
+      const html = markdownToHTML('- one\n  - nested\n- two\n\n```js\nconst a = 1 * 2 * 3;\n```');
+
+      expect(html).toContain('<ul>\n<li>one\n<ul>\n<li>nested</li>');
+      expect(html).toContain('<pre><code class="language-js">const a = 1 * 2 * 3;\n</code></pre>');
+    });
+
+    it('should escape HTML inside code spans', () => {
+      expect(markdownToHTML('`<b>`')).toContain('<code>&lt;b&gt;</code>');
+    });
+
+    it('should not render the YAML front matter', () => {
+      const html = markdownToHTML('---\ntitle: Hidden\ntags: [a]\n---\n\n# Shown');
+
+      expect(html).toBe('<h1>Shown</h1>\n');
+    });
+  });
+
+  describe('GFM extensions', () => {
+    it('should render tables with alignment', () => {
+      const html = markdownToHTML('| Name | Size |\n| :--- | ---: |\n| a | 1 |');
+
+      expect(html).toContain('<table>');
+      expect(html).toContain('<th style="text-align:left">Name</th>');
+      expect(html).toContain('<td style="text-align:right">1</td>');
+    });
+
+    it('should render strikethrough', () => {
+      expect(markdownToHTML('~~gone~~')).toContain('<s>gone</s>');
+    });
+
+    it('should autolink bare URLs', () => {
+      expect(markdownToHTML('See https://example.com now')).toContain(
+        '<a href="https://example.com">https://example.com</a>'
+      );
+    });
+
+    it('should render task lists', () => {
+      const html = markdownToHTML('- [ ] todo\n- [x] done\n- plain');
+
+      expect(html).toContain('<ul class="contains-task-list">');
+      expect(html).toContain(
+        '<li class="task-list-item"><input class="task-list-item-checkbox" type="checkbox" disabled> todo</li>'
+      );
+      expect(html).toContain(
+        '<li class="task-list-item"><input class="task-list-item-checkbox" type="checkbox" disabled checked> done</li>'
+      );
+      expect(html).toContain('<li>plain</li>');
+    });
+
+    it('should not treat brackets elsewhere as tasks', () => {
+      expect(markdownToHTML('[ ] not a task')).not.toContain('checkbox');
+    });
+
+    it('should render footnotes', () => {
+      const html = markdownToHTML('Claim.[^1]\n\n[^1]: Source.');
+
+      expect(html).toContain('class="footnote-ref"');
+      expect(html).toContain('<section class="footnotes">');
+      expect(html).toContain('Source.');
+    });
+  });
+
+  describe('wiki links', () => {
+    const resolveWikiLink = (target: string) => (target === 'Existing Page' ? 'existing-page.md' : null);
+
+    it('should link resolved pages to the view route', () => {
+      const html = markdownToHTML('See [[Existing Page|this page]].', { resolveWikiLink });
+
+      expect(html).toContain('<a href="/view?path=existing-page.md" class="wiki-link">this page</a>');
+    });
+
+    it('should link unresolved pages to the editor with a prefilled path', () => {
+      const html = markdownToHTML('[[New Page]]', { resolveWikiLink, currentPath: 'docs/index.md' });
+
+      expect(html).toContain('href="/edit?path=docs%2Fnew-page.md&amp;title=New%20Page"');
+      expect(html).toContain('class="wiki-link wiki-link-new"');
+    });
+
+    it('should escape link labels', () => {
+      const html = markdownToHTML('[[Existing Page|<b>bold</b>]]', { resolveWikiLink });
+      expect(html).toContain('&lt;b&gt;bold&lt;/b&gt;');
+    });
+
+    it('should leave regular links and footnotes alone', () => {
+      const html = markdownToHTML('[link](https://example.com) and note[^1]\n\n[^1]: text');
+
+      expect(html).toContain('<a href="https://example.com">link</a>');
+      expect(html).not.toContain('wiki-link');
+    });
+  });
+
+  describe('file references', () => {
+    const resolveFileUrl = (id: string) => (id === '1-logo.png' ? 'https://bucket.test/files%2F1-logo.png' : null);
+
+    it('should load uploaded files from their URL', () => {
+      const html = markdownToHTML('![Logo](files/1-logo.png) [download](files/1-logo.png)', { resolveFileUrl });
+
+      expect(html).toContain('<img src="https://bucket.test/files%2F1-logo.png" alt="Logo">');
+      expect(html).toContain('<a href="https://bucket.test/files%2F1-logo.png">download</a>');
+    });
+
+    it('should leave unknown files and other links as written', () => {
+      const html = markdownToHTML('![x](files/missing.png) ![y](images/1-logo.png)', { resolveFileUrl });
+
+      expect(html).toContain('<img src="files/missing.png" alt="x">');
+      expect(html).toContain('<img src="images/1-logo.png" alt="y">');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Markdown rendering utilities
+ * CommonMark renderer with GitHub Flavored Markdown extensions, shared by the editor preview and page views
+ */
+
+import markdownit, { type MarkdownIt, type StateCore, type StateInline, type Token } from 'markdown-it';
+import footnote from 'markdown-it-footnote';
+import { sanitizeHTML } from './security.js';
+import { stripFrontMatter } from './frontMatter.js';
+import {
+  parseWikiLinkText,
+  type WikiLinkParts,
+  wikiLinkCreateHref,
+  wikiLinkHref,
+  wikiLinkToPath,
+  type WikiLinkResolver
+} from './wikiLinks.js';
+import { resolveFileReference, type FileUrlResolver } from './fileReferences.js';
+
+export interface MarkdownRenderOptions {
+  // Resolves [[wiki links]]; without it every link is assumed to exist
+  resolveWikiLink?: WikiLinkResolver;
+  // Resolves `files/<id>` references to uploaded files; without it they are left as written
+  resolveFileUrl?: FileUrlResolver;
+  // Path of the page being rendered, used for folder-relative wiki links
+  currentPath?: string;
+}
+
+const TASK_PATTERN = /^\[([ xX])\]\s+/;
+
+/**
+ * Turn list items starting with `[ ]` or `[x]` into read-only checkboxes
+ */
+function taskLists(md: MarkdownIt) {
+  md.core.ruler.after('inline', 'task_lists', (state: StateCore) => {
+    const tokens = state.tokens;
+
+    for (let i = 2; i < tokens.length; i++) {
+      const inline = tokens[i];
+      if (
+        inline.type !== 'inline' ||
+        tokens[i - 1].type !== 'paragraph_open' ||
+        tokens[i - 2].type !== 'list_item_open'
+      ) {
+        continue;
+      }
+
+      const first = inline.children?.[0];
+      const match = first?.type === 'text' ? TASK_PATTERN.exec(first.content) : null;
+      if (!first || !match) continue;
+
+      first.content = first.content.slice(match[0].length);
+      inline.children!.unshift(createCheckbox(state, match[1] !== ' '));
+
+      tokens[i - 2].attrJoin('class', 'task-list-item');
+      const listOpen = findListOpen(tokens, i - 2);
+      if (listOpen) {
+        listOpen.attrSet('class', 'contains-task-list');
+      }
+    }
+  });
+}
+
+function createCheckbox(state: StateCore, checked: boolean): Token {
+  const token = new state.Token('html_inline', '', 0);
+  token.content = `<input class="task-list-item-checkbox" type="checkbox" disabled${checked ? ' checked' : ''}> `;
+  return token;
+}
+
+/**
+ * Find the list that owns the list item at `index`
+ */
+function findListOpen(tokens: Token[], index: number): Token | null {
+  const level = tokens[index].level - 1;
+  for (let i = index - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.level === level && (token.type === 'bullet_list_open' || token.type === 'ordered_list_open')) {
+      return token;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse [[target]] and [[target|label]] into wiki_link tokens
+ */
+function wikiLinks(md: MarkdownIt) {
+  md.inline.ruler.before('link', 'wiki_link', (state: StateInline, silent: boolean) => {
+    const start = state.pos;
+    if (state.src.charCodeAt(start) !== 0x5b /* [ */ || state.src.charCodeAt(start + 1) !== 0x5b) {
+      return false;
+    }
+
+    const end = state.src.indexOf(']]', start + 2);
+    if (end === -1) return false;
+
+    const inner = state.src.slice(start + 2, end);
+    if (/[\[\]\n]/.test(inner)) return false;
+
+    const link = parseWikiLinkText(inner);
+    if (!link) return false;
+
+    if (!silent) {
+      const token = state.push('wiki_link', '', 0);
+      token.meta = link;
+      token.content = state.src.slice(start, end + 2);
+    }
+
+    state.pos = end + 2;
+    return true;
+  });
+
+  md.renderer.rules.wiki_link = (tokens, index, _options, env) => {
+    const { target, label, anchor } = tokens[index].meta as WikiLinkParts;
+    const { resolveWikiLink, currentPath } = (env || {}) as MarkdownRenderOptions;
+    const escape = md.utils.escapeHtml;
+
+    const resolved = resolveWikiLink
+      ? resolveWikiLink(target, currentPath)
+      : wikiLinkToPath(target, currentPath);
+
+    if (resolved) {
+      return `<a href="${escape(wikiLinkHref(resolved, anchor))}" class="wiki-link">${escape(label)}</a>`;
+    }
+
+    const newPath = wikiLinkToPath(target, currentPath);
+    const title = target.split('/').pop() || target;
+    return (
+      `<a href="${escape(wikiLinkCreateHref(newPath, title))}" class="wiki-link wiki-link-new"` +
+      ` title="${escape(`Create page: ${newPath}`)}">${escape(label)}</a>`
+    );
+  };
+}
+
+/**
+ * Point images and links referencing uploaded files at the file URL
+ */
+function fileReferences(md: MarkdownIt) {
+  md.core.ruler.push('file_references', (state: StateCore) => {
+    const { resolveFileUrl } = (state.env || {}) as MarkdownRenderOptions;
+    if (!resolveFileUrl) return;
+
+    for (const block of state.tokens) {
+      for (const token of block.children ?? []) {
+        const attribute = token.type === 'image' ? 'src' : token.type === 'link_open' ? 'href' : null;
+        const url = attribute && token.attrGet(attribute);
+        if (attribute && typeof url === 'string') {
+          token.attrSet(attribute, resolveFileReference(url, resolveFileUrl));
+        }
+      }
+    }
+  });
+}
+
+const markdown = markdownit({
+  html: true,
+  linkify: true,
+  typographer: false
+})
+  .use(footnote)
+  .use(taskLists)
+  .use(wikiLinks)
+  .use(fileReferences);
+
+/**
+ * Convert markdown to HTML without sanitizing it.
+ * The YAML front matter holds page properties and is not rendered.
+ */
+export function markdownToHTML(source: string, options: MarkdownRenderOptions = {}): string {
+  return markdown.render(stripFrontMatter(source), { ...options });
+}
+
+/**
+ * Convert markdown to sanitized HTML ready to be inserted into the page
+ */
+export function renderMarkdown(source: string, options: MarkdownRenderOptions = {}): string {
+  return sanitizeHTML(markdownToHTML(source, options));
+}
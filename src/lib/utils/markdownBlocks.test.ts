@@ -0,0 +1,70 @@
+/**
+ * Markdown Block Utilities Tests
+ * Tests for keeping the source of unedited blocks after the editor re-serializes a page
+ */
+
+import { describe, it, expect } from 'vitest';
+import { preserveSourceBlocks } from './markdownBlocks.js';
+
+describe('Markdown Block Utilities', () => {
+  // A page as written by hand, and as the editor serializes it
+  const source = [
+    'Intro with \\_escaped\\_ text',
+    '',
+    '* one',
+    '* two',
+    '',
+    '',
+    '| Name | Value |',
+    '|------|------:|',
+    '| a    |     1 |',
+    '',
+    'Last *paragraph*'
+  ].join('\n');
+  const loadedSerialized = [
+    'Intro with \\_escaped\\_ text',
+    '',
+    '- one',
+    '- two',
+    '',
+    '| Name | Value |',
+    '| - | -: |',
+    '| a | 1 |',
+    '',
+    'Last _paragraph_',
+    ''
+  ].join('\n');
+
+  it('should return the loaded source while the document is unedited', () => {
+    expect(preserveSourceBlocks(source, loadedSerialized, loadedSerialized)).toBe(source);
+  });
+
+  it('should keep unedited blocks as they were loaded after an edit', () => {
+    const edited = loadedSerialized.replace('- two', '- two\n- three');
+
+    // The edited list and the spacing after it are written in the editor's format
+    expect(preserveSourceBlocks(source, loadedSerialized, edited)).toBe(
+      source.replace('* one\n* two\n\n\n', '- one\n- two\n- three\n\n')
+    );
+  });
+
+  it('should keep the source around added and removed blocks', () => {
+    const added = loadedSerialized.replace('Last _paragraph_', 'New\n\nLast _paragraph_');
+    const removed = loadedSerialized.replace('- one\n- two\n\n', '');
+
+    expect(preserveSourceBlocks(source, loadedSerialized, added)).toBe(
+      source.replace('Last *paragraph*', 'New\n\nLast *paragraph*')
+    );
+    expect(preserveSourceBlocks(source, loadedSerialized, removed)).toBe(
+      'Intro with \\_escaped\\_ text\n\n| Name | Value |\n|------|------:|\n| a    |     1 |\n\nLast *paragraph*'
+    );
+  });
+
+  it('should use the serialized document when the structure of the source differs', () => {
+    const serialized = 'Intro\n\n- one\n';
+
+    expect(preserveSourceBlocks('Intro\n\n<!-- note -->\n\n* one', 'Intro\n\n- one\n', serialized + '- two\n')).toBe(
+      serialized + '- two\n'
+    );
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Markdown block utilities
+ * Keeps the source text of unedited blocks when the WYSIWYG editor re-serializes a page
+ */
+
+import markdownit from 'markdown-it';
+
+interface SourceBlock {
+  // Token type, e.g. paragraph_open or fence
+  type: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const md = markdownit();
+
+/**
+ * Markdown to save for a page edited in the WYSIWYG editor.
+ * The editor serializes the whole document in its own format (list markers, table padding,
+ * escaping). Blocks the user did not touch are matched against the serialization of the
+ * loaded page and written back as they were loaded, together with the spacing between them;
+ * only edited and new blocks use the editor's format.
+ *
+ * @param source - Markdown the editor was loaded with
+ * @param loadedSerialized - The editor's serialization of `source` before any edit
+ * @param serialized - The editor's serialization of the current document
+ */
+export function preserveSourceBlocks(source: string, loadedSerialized: string, serialized: string): string {
+  if (serialized === loadedSerialized) {
+    return source;
+  }
+
+  const sourceBlocks = splitBlocks(source);
+  const loadedBlocks = splitBlocks(loadedSerialized);
+  const blocks = splitBlocks(serialized);
+
+  // Source blocks are paired with the serialized ones by position, so the structure has to agree
+  if (
+    blocks.length === 0 ||
+    sourceBlocks.length !== loadedBlocks.length ||
+    sourceBlocks.some((block, i) => block.type !== loadedBlocks[i].type)
+  ) {
+    return serialized;
+  }
+
+  const matches = matchBlocks(loadedBlocks.map(block => block.text), blocks.map(block => block.text));
+  let result = '';
+
+  for (let i = 0; i <= blocks.length; i++) {
+    const previous = i > 0 ? matches[i - 1] : -1;
+    const current = i < blocks.length ? matches[i] : sourceBlocks.length;
+
+    // Text before, between and after blocks is kept where both sides come from the source
+    if ((i === 0 && current === 0) || (i > 0 && previous !== -1 && current === previous + 1)) {
+      result += source.slice(i === 0 ? 0 : sourceBlocks[previous].end, sourceBlocks[current]?.start ?? source.length);
+    } else {
+      result += serialized.slice(i === 0 ? 0 : blocks[i - 1].end, blocks[i]?.start ?? serialized.length);
+    }
+
+    if (i < blocks.length) {
+      result += current === -1 ? blocks[i].text : sourceBlocks[current].text;
+    }
+  }
+
+  return result;
+}
+
+// Internal helpers
+
+/**
+ * Top-level blocks of a document with their offsets, without trailing blank lines
+ */
+function splitBlocks(markdown: string): SourceBlock[] {
+  const lineStarts = [0];
+  for (let i = 0; i < markdown.length; i++) {
+    if (markdown[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const blocks: SourceBlock[] = [];
+  for (const token of md.parse(markdown, {})) {
+    if (token.level !== 0 || token.nesting === -1 || !token.map) {
+      continue;
+    }
+
+    const start = lineStarts[token.map[0]];
+    let end = lineStarts[token.map[1]] ?? markdown.length;
+    while (end > start && /\s/.test(markdown[end - 1])) {
+      end--;
+    }
+    blocks.push({ type: token.type, start, end, text: markdown.slice(start, end) });
+  }
+  return blocks;
+}
+
+/**
+ * For each block of `edited`, the index of the unchanged block of `loaded` it matches, or -1.
+ * Matches keep their order (longest common subsequence), so moved blocks count as edited.
+ */
+function matchBlocks(loaded: string[], edited: string[]): number[] {
+  const matches = new Array<number>(edited.length).fill(-1);
+
+  // Edits are usually local, so the common start and end are matched directly
+  let prefix = 0;
+  while (prefix < loaded.length && prefix < edited.length && loaded[prefix] === edited[prefix]) {
+    matches[prefix] = prefix;
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < loaded.length - prefix &&
+    suffix < edited.length - prefix &&
+    loaded[loaded.length - 1 - suffix] === edited[edited.length - 1 - suffix]
+  ) {
+    matches[edited.length - 1 - suffix] = loaded.length - 1 - suffix;
+    suffix++;
+  }
+
+  const a = loaded.slice(prefix, loaded.length - suffix);
+  const b = edited.slice(prefix, edited.length - suffix);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      matches[prefix + j] = prefix + i;
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,135 @@
+/**
+ * Markdown Source Utilities Tests
+ * Tests for highlighting, search and replace, and cursor mapping of the source editor
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countContentCharacters,
+  getContentMask,
+  sourceToContentPosition,
+  contentToSourceOffset,
+  highlightMarkdown,
+  findMatches,
+  replaceMatch,
+  replaceAllMatches,
+  highlightMatches
+} from './markdownSource.js';
+
+function contentOf(source: string): string {
+  const mask = getContentMask(source);
+  return [...source].filter((_, i) => mask[i]).join('');
+}
+
+describe('Markdown Source Utilities', () => {
+  describe('getContentMask', () => {
+    it('should skip block markers and inline syntax', () => {
+      expect(contentOf('# Title\n\n> - [x] **Done** and _it_ ~~not~~')).toBe('TitleDoneanditnot');
+      expect(contentOf('See [the docs](docs/a.md) ![logo](logo.png) <br> `a*b`')).toBe('Seethedocsa*b');
+      expect(contentOf('1. snake_case \\*star\\*')).toBe('snake_case*star*');
+    });
+
+    it('should skip table delimiters, fences and comments but keep code', () => {
+      const source = '| A | B |\n|---|:-:|\n| 1 | 2 |\n\n```js\nlet x;\n```\n<!-- note\nhere -->';
+
+      expect(contentOf(source)).toBe('AB12letx;');
+    });
+
+    it('should count the same characters as the rendered text', () => {
+      const source = '## Intro\n\nSome **bold** text.\n\n- item';
+
+      expect(countContentCharacters('Intro\nSome bold text.\nitem')).toBe(contentOf(source).length);
+    });
+  });
+
+  describe('cursor mapping', () => {
+    const source = '# Title\n\nSome **bold** text\n\n- item';
+
+    it('should map source offsets to content positions', () => {
+      expect(sourceToContentPosition(source, 0)).toEqual({ offset: 0, lineStart: true });
+      expect(sourceToContentPosition(source, source.indexOf('bold') + 2)).toEqual({ offset: 11, lineStart: false });
+      expect(sourceToContentPosition(source, source.indexOf('- item'))).toEqual({ offset: 17, lineStart: true });
+    });
+
+    it('should map content positions back to the source', () => {
+      expect(contentToSourceOffset(source, { offset: 11, lineStart: false })).toBe(source.indexOf('bold') + 2);
+      // The end of a line and the start of the next one are told apart
+      expect(contentToSourceOffset(source, { offset: 5, lineStart: false })).toBe(source.indexOf('\n'));
+      expect(contentToSourceOffset(source, { offset: 5, lineStart: true })).toBe(source.indexOf('Some'));
+      expect(contentToSourceOffset(source, { offset: 17, lineStart: true })).toBe(source.indexOf('item'));
+      expect(contentToSourceOffset(source, { offset: 99, lineStart: false })).toBe(source.length);
+    });
+  });
+
+  describe('highlightMarkdown', () => {
+    it('should keep the text and escape HTML', () => {
+      const source = '---\ntitle: A\n---\n# Head <b>\n\n```\n<x>\n```\nText **bold** [link](a.md) & more';
+      const html = highlightMarkdown(source);
+
+      expect(html.replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')).toBe(source);
+      expect(html).toContain('<span class="md-front-matter">title: A</span>');
+      expect(html).toContain('<span class="md-heading"># Head &lt;b&gt;</span>');
+      expect(html).toContain('<span class="md-code-block">&lt;x&gt;</span>');
+      expect(html).toContain('<span class="md-strong">**bold**</span>');
+      expect(html).toContain('<span class="md-link">[link]</span><span class="md-url">(a.md)</span>');
+    });
+
+    it('should highlight comments spanning lines', () => {
+      expect(highlightMarkdown('a <!-- b\nc -->d')).toBe(
+        'a <span class="md-comment">&lt;!-- b</span>\n<span class="md-comment">c --&gt;</span>d'
+      );
+    });
+  });
+
+  describe('search and replace', () => {
+    const text = 'Foo foo\nfood';
+
+    it('should find plain and regular expression matches', () => {
+      expect(findMatches(text, 'foo')).toEqual([
+        { start: 0, end: 3 },
+        { start: 4, end: 7 },
+        { start: 8, end: 11 }
+      ]);
+      expect(findMatches(text, 'foo', { caseSensitive: true })).toHaveLength(2);
+      expect(findMatches(text, '^fo+\\b', { regex: true })).toEqual([{ start: 0, end: 3 }]);
+      expect(findMatches(text, '.', {})).toEqual([]);
+      expect(() => findMatches(text, '(', { regex: true })).toThrow(SyntaxError);
+    });
+
+    it('should replace one or all matches', () => {
+      const replaceAll = (query: string, replacement: string, options = {}) =>
+        replaceAllMatches(text, findMatches(text, query, options), replacement, options);
+
+      expect(replaceMatch(text, { start: 4, end: 7 }, 'bar')).toBe('Foo bar\nfood');
+      expect(replaceAll('foo', '$1', { caseSensitive: true })).toBe('Foo $1\n$1d');
+      expect(replaceAll('o+', '0', { regex: true })).toBe('F0 f0\nf0d');
+    });
+
+    it('should expand groups the way String.replace does', () => {
+      const regex = { regex: true };
+      const [food] = findMatches(text, '(fo)(?<rest>od)', regex);
+      const [, second] = findMatches(text, 'f(o)o', regex);
+
+      expect(replaceMatch(text, food, '$<rest>$1', regex)).toBe('Foo foo\nodfo');
+      expect(replaceMatch(text, second, '[$&|$1|$$|$2|$10|$<x>]', regex)).toBe('Foo [foo|o|$|$2|o0|$<x>]\nfood');
+    });
+
+    it('should replace exactly the matches that were found', () => {
+      const regex = { regex: true };
+      const tags = '#one #two';
+
+      // Empty matches are skipped when finding, so nothing is inserted between characters
+      expect(replaceAllMatches('baac', findMatches('baac', 'a*', regex), 'X', regex)).toBe('bXc');
+      // Lookbehinds and anchors see the text around the match
+      expect(replaceMatch(tags, findMatches(tags, '(?<=#)\\w+', regex)[1], 'three', regex)).toBe('#one #three');
+      expect(replaceMatch(text, findMatches(text, 'o$', regex)[0], '0', regex)).toBe('Foo fo0\nfood');
+      expect(replaceAllMatches(text, findMatches(text, '^f\\w*$', regex), 'x', regex)).toBe('Foo foo\nx');
+    });
+
+    it('should mark the matches and the current one', () => {
+      expect(highlightMatches('a<b a', [{ start: 0, end: 1 }, { start: 4, end: 5 }], 1)).toBe(
+        '<mark>a</mark>&lt;b <mark class="current">a</mark>'
+      );
+    });
+  });
+});
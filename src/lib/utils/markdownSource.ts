@@ -0,0 +1,408 @@
+/**
+ * Markdown source utilities
+ * Syntax highlighting, search and replace, and cursor mapping for the source-mode editor
+ */
+
+export interface ContentPosition {
+  // Content characters, i.e. text other than whitespace and markdown syntax, before the position
+  offset: number;
+  // Whether no content of the same line (or block) comes before the position
+  lineStart: boolean;
+}
+
+export interface SearchOptions {
+  caseSensitive?: boolean;
+  regex?: boolean;
+}
+
+export interface SearchMatch {
+  start: number;
+  end: number;
+  // Groups of a regular expression match, for `$1` and `$<name>` in replacements
+  captures?: (string | undefined)[];
+  groups?: Record<string, string | undefined>;
+}
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+// Table delimiter rows, thematic breaks and setext underlines hold no text
+const SYNTAX_LINE_PATTERN = /^\s*(?:\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?|(?:[-*_]\s*){3,}|=+)\s*$/;
+// Blockquote, list, task and heading markers at the start of a line
+const BLOCK_PREFIX_PATTERN = /^(?:\s*(?:>|[-*+](?=\s)|\d+[.)](?=\s)|#{1,6}(?=\s|$)|\[[ xX]\](?=\s)))*\s*/;
+const IMAGE_PATTERN = /^!\[[^\]]*\]\([^)]*\)/;
+const LINK_PATTERN = /^\[([^\]]*)\]\([^)]*\)/;
+const AUTOLINK_PATTERN = /^<[A-Za-z][\w+.-]*:[^\s>]+>/;
+const TAG_PATTERN = /^<\/?[A-Za-z][^>]*>/;
+const COMMENT_PATTERN = /<!--[\s\S]*?(?:-->|$)/g;
+
+/**
+ * Count the characters that are not whitespace, which is how the rich editor's text is
+ * compared with the markdown source
+ */
+export function countContentCharacters(text: string): number {
+  return text.replace(/\s/g, '').length;
+}
+
+/**
+ * Flag the characters of the markdown source that show up as text in the rendered page.
+ * Block markers, emphasis, link targets, images, HTML tags and comments are syntax.
+ * This is an approximation meant for keeping the cursor in place, not a markdown parser.
+ */
+export function getContentMask(source: string): boolean[] {
+  const mask = new Array<boolean>(source.length).fill(false);
+  let fence: string | null = null;
+  let lineOffset = 0;
+
+  for (const line of source.split('\n')) {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && !line.slice(fenceMatch[0].length).trim()) {
+        fence = null;
+      } else {
+        markText(mask, line, lineOffset, 0);
+      }
+    } else if (fenceMatch) {
+      fence = fenceMatch[1];
+    } else if (!SYNTAX_LINE_PATTERN.test(line)) {
+      markInline(mask, line, lineOffset);
+    }
+    lineOffset += line.length + 1;
+  }
+
+  for (const comment of source.matchAll(COMMENT_PATTERN)) {
+    mask.fill(false, comment.index!, comment.index! + comment[0].length);
+  }
+
+  return mask;
+}
+
+function markText(mask: boolean[], line: string, lineOffset: number, from: number, to = line.length) {
+  for (let i = from; i < to; i++) {
+    mask[lineOffset + i] = !/\s/.test(line[i]);
+  }
+}
+
+function markInline(mask: boolean[], line: string, lineOffset: number) {
+  const tableRow = line.trimStart().startsWith('|');
+  // End of the text of an open link, where its `](url)` part starts
+  let linkTextEnd = -1;
+  let linkEnd = -1;
+  let i = BLOCK_PREFIX_PATTERN.exec(line)![0].length;
+
+  while (i < line.length) {
+    if (linkTextEnd !== -1 && i >= linkTextEnd) {
+      i = Math.max(i, linkEnd);
+      linkTextEnd = -1;
+      continue;
+    }
+
+    const char = line[i];
+    const rest = line.slice(i);
+
+    if (char === '\\' && i + 1 < line.length && /[!-/:-@[-`{-~]/.test(line[i + 1])) {
+      mask[lineOffset + i + 1] = true;
+      i += 2;
+    } else if (char === '`') {
+      const ticks = /^`+/.exec(rest)![0];
+      const close = line.indexOf(ticks, i + ticks.length);
+      if (close === -1) {
+        i += ticks.length;
+      } else {
+        markText(mask, line, lineOffset, i + ticks.length, close);
+        i = close + ticks.length;
+      }
+    } else if (IMAGE_PATTERN.test(rest)) {
+      // Images are leaves without text in the rich editor
+      i += IMAGE_PATTERN.exec(rest)![0].length;
+    } else if (char === '[' && LINK_PATTERN.test(rest)) {
+      const link = LINK_PATTERN.exec(rest)!;
+      linkTextEnd = i + 1 + link[1].length;
+      linkEnd = i + link[0].length;
+      i += 1;
+    } else if (AUTOLINK_PATTERN.test(rest)) {
+      const length = AUTOLINK_PATTERN.exec(rest)![0].length;
+      markText(mask, line, lineOffset, i + 1, i + length - 1);
+      i += length;
+    } else if (TAG_PATTERN.test(rest)) {
+      i += TAG_PATTERN.exec(rest)![0].length;
+    } else {
+      mask[lineOffset + i] = !isInlineSyntax(line, i, tableRow);
+      i += 1;
+    }
+  }
+}
+
+function isInlineSyntax(line: string, i: number, tableRow: boolean): boolean {
+  const char = line[i];
+  if (/\s/.test(char) || char === '*' || char === '~' || (char === '|' && tableRow)) {
+    return true;
+  }
+  // Underscores inside words are text, e.g. snake_case
+  if (char === '_') {
+    return !/[A-Za-z0-9]/.test(line[i - 1] ?? '') || !/[A-Za-z0-9]/.test(line[i + 1] ?? '');
+  }
+  // A trailing backslash is a hard line break
+  return char === '\\' && i === line.length - 1;
+}
+
+/**
+ * Position in the source as content characters before it
+ */
+export function sourceToContentPosition(source: string, sourceOffset: number): ContentPosition {
+  const mask = getContentMask(source);
+  const end = Math.max(0, Math.min(sourceOffset, source.length));
+  const lineBegin = source.lastIndexOf('\n', end - 1) + 1;
+
+  let offset = 0;
+  let lineStart = true;
+  for (let i = 0; i < end; i++) {
+    if (mask[i]) {
+      offset++;
+      if (i >= lineBegin) lineStart = false;
+    }
+  }
+
+  return { offset, lineStart };
+}
+
+/**
+ * Source offset of a content position: right after its last content character, or before
+ * the next one when the position starts a line so the cursor lands on that line
+ */
+export function contentToSourceOffset(source: string, position: ContentPosition): number {
+  const mask = getContentMask(source);
+  if (position.offset === 0 && !position.lineStart) {
+    return 0;
+  }
+
+  let seen = 0;
+  for (let i = 0; i < source.length; i++) {
+    if (!mask[i]) continue;
+    if (position.lineStart && seen === position.offset) {
+      return i;
+    }
+    seen++;
+    if (!position.lineStart && seen === position.offset) {
+      return i + 1;
+    }
+  }
+
+  return source.length;
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function span(className: string, text: string): string {
+  return text ? `<span class="${className}">${escapeHTML(text)}</span>` : '';
+}
+
+const INLINE_TOKEN_PATTERN = new RegExp(
+  [
+    /(`+)[^`]*?\1/.source,
+    /!?\[[^\]]*\]\([^)]*\)/.source,
+    /\*\*[^*]+\*\*|__[^_]+__/.source,
+    /\*[^*\s][^*]*\*|\b_[^_\s][^_]*_\b/.source,
+    /~~[^~]+~~/.source,
+    /<!--.*?-->/.source,
+    /<\/?[A-Za-z][^>]*>/.source
+  ].join('|'),
+  'g'
+);
+
+function highlightInline(line: string): string {
+  let html = '';
+  let last = 0;
+
+  for (const token of line.matchAll(INLINE_TOKEN_PATTERN)) {
+    const text = token[0];
+    html += escapeHTML(line.slice(last, token.index));
+    last = token.index! + text.length;
+
+    if (text.startsWith('`')) {
+      html += span('md-code', text);
+    } else if (text.startsWith('<!--')) {
+      html += span('md-comment', text);
+    } else if (text.startsWith('<')) {
+      html += span('md-tag', text);
+    } else if (text.startsWith('[') || text.startsWith('![')) {
+      const split = text.indexOf('](');
+      html += span('md-link', text.slice(0, split + 1)) + span('md-url', text.slice(split + 1));
+    } else if (text.startsWith('~~')) {
+      html += span('md-strike', text);
+    } else if (text.startsWith('**') || text.startsWith('__')) {
+      html += span('md-strong', text);
+    } else {
+      html += span('md-emphasis', text);
+    }
+  }
+
+  return html + escapeHTML(line.slice(last));
+}
+
+/**
+ * Render markdown source as HTML with `md-*` classes for syntax highlighting.
+ * The text is kept character for character so it lines up with the textarea over it.
+ */
+export function highlightMarkdown(source: string): string {
+  const lines = source.split('\n');
+  let fence: string | null = null;
+  let inComment = false;
+  let frontMatterEnd = -1;
+
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((line, index) => index > 0 && (line.trim() === '---' || line.trim() === '...'));
+    frontMatterEnd = close;
+  }
+
+  return lines.map((line, index) => {
+    if (index <= frontMatterEnd) {
+      return span('md-front-matter', line);
+    }
+
+    if (inComment) {
+      const close = line.indexOf('-->');
+      if (close === -1) {
+        return span('md-comment', line);
+      }
+      inComment = false;
+      return span('md-comment', line.slice(0, close + 3)) + highlightInline(line.slice(close + 3));
+    }
+
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return span('md-code-block', line);
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return span('md-code-block', line);
+    }
+
+    const open = line.lastIndexOf('<!--');
+    if (open !== -1 && line.indexOf('-->', open) === -1) {
+      inComment = true;
+      return highlightInline(line.slice(0, open)) + span('md-comment', line.slice(open));
+    }
+
+    if (/^\s{0,3}#{1,6}(\s|$)/.test(line)) {
+      return span('md-heading', line);
+    }
+    if (SYNTAX_LINE_PATTERN.test(line) && line.trim()) {
+      return span('md-syntax', line);
+    }
+
+    const prefix = BLOCK_PREFIX_PATTERN.exec(line)![0];
+    return span('md-syntax', prefix) + highlightInline(line.slice(prefix.length));
+  }).join('\n');
+}
+
+function createSearchPattern(query: string, options: SearchOptions): RegExp {
+  const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, 'g' + (options.caseSensitive ? '' : 'i') + 'm');
+}
+
+/**
+ * Expand `$$`, `$&`, `` $` ``, `$'`, `$1` and `$<name>` the way String.replace does,
+ * against the whole text so that the match is the one that was found
+ */
+function expandReplacement(text: string, match: SearchMatch, replacement: string): string {
+  const captures = match.captures ?? [];
+
+  return replacement.replace(/\$(?:([$&`'])|(\d\d?)|<([^>]*)>)/g, (token, symbol?: string, digits?: string, name?: string) => {
+    switch (symbol) {
+      case '$':
+        return '$';
+      case '&':
+        return text.slice(match.start, match.end);
+      case '`':
+        return text.slice(0, match.start);
+      case "'":
+        return text.slice(match.end);
+    }
+
+    if (name !== undefined) {
+      return match.groups ? match.groups[name] ?? '' : token;
+    }
+
+    // `$12` refers to group 12 if there is one, otherwise to group 1 followed by "2"
+    const index = Number(digits);
+    if (index >= 1 && index <= captures.length) {
+      return captures[index - 1] ?? '';
+    }
+    const first = Number(digits![0]);
+    if (digits!.length === 2 && first >= 1 && first <= captures.length) {
+      return (captures[first - 1] ?? '') + digits![1];
+    }
+    return token;
+  });
+}
+
+/**
+ * Find all matches of a query; throws a SyntaxError for an invalid regular expression
+ */
+export function findMatches(text: string, query: string, options: SearchOptions = {}): SearchMatch[] {
+  if (!query) {
+    return [];
+  }
+
+  const matches: SearchMatch[] = [];
+  for (const match of text.matchAll(createSearchPattern(query, options))) {
+    // Empty matches (e.g. `^`) have nothing to select or replace
+    if (match[0].length > 0) {
+      matches.push({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        ...(match.length > 1 && { captures: match.slice(1) }),
+        ...(match.groups && { groups: { ...match.groups } })
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Replace one match found by findMatches; with `regex`, `$1` and the like in the replacement refer to groups
+ */
+export function replaceMatch(text: string, match: SearchMatch, replacement: string, options: SearchOptions = {}): string {
+  return replaceAllMatches(text, [match], replacement, options);
+}
+
+/**
+ * Replace the matches found by findMatches, which are in document order and do not overlap
+ */
+export function replaceAllMatches(
+  text: string,
+  matches: SearchMatch[],
+  replacement: string,
+  options: SearchOptions = {}
+): string {
+  let result = '';
+  let last = 0;
+
+  for (const match of matches) {
+    result += text.slice(last, match.start);
+    result += options.regex ? expandReplacement(text, match, replacement) : replacement;
+    last = match.end;
+  }
+
+  return result + text.slice(last);
+}
+
+/**
+ * Render the text with the search matches marked, for the layer behind the source editor
+ */
+export function highlightMatches(text: string, matches: SearchMatch[], current: number): string {
+  let html = '';
+  let last = 0;
+
+  matches.forEach((match, index) => {
+    html += escapeHTML(text.slice(last, match.start));
+    html += `<mark${index === current ? ' class="current"' : ''}>${escapeHTML(text.slice(match.start, match.end))}</mark>`;
+    last = match.end;
+  });
+
+  return html + escapeHTML(text.slice(last));
+}
@@ -0,0 +1,118 @@
+/**
+ * Merge Utilities Tests
+ * Tests for three-way merging of concurrent page edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeThreeWay, resolveMerge } from './merge.js';
+
+const base = ['# Title', '', 'intro', '', 'middle', '', 'outro'].join('\n');
+
+function edit(text: string, from: string, to: string): string {
+  return text.replace(from, to);
+}
+
+describe('Merge Utilities', () => {
+  describe('mergeThreeWay', () => {
+    it('should return the base when nothing changed', () => {
+      const result = mergeThreeWay(base, base, base);
+      expect(result.clean).toBe(true);
+      expect(resolveMerge(result.chunks)).toBe(base);
+    });
+
+    it('should take changes made on one side only', () => {
+      const local = edit(base, 'intro', 'new intro');
+
+      expect(resolveMerge(mergeThreeWay(base, local, base).chunks)).toBe(local);
+      expect(resolveMerge(mergeThreeWay(base, base, local).chunks)).toBe(local);
+    });
+
+    it('should combine non-overlapping changes from both sides', () => {
+      const local = edit(base, 'intro', 'local intro');
+      const remote = edit(base, 'outro', 'remote outro');
+
+      const result = mergeThreeWay(base, local, remote);
+
+      expect(result.clean).toBe(true);
+      expect(resolveMerge(result.chunks)).toBe(
+        ['# Title', '', 'local intro', '', 'middle', '', 'remote outro'].join('\n')
+      );
+    });
+
+    it('should merge insertions and deletions in different places', () => {
+      const local = base + '\nappendix';
+      const remote = edit(base, '# Title\n\n', '');
+
+      const result = mergeThreeWay(base, local, remote);
+
+      expect(result.clean).toBe(true);
+      expect(resolveMerge(result.chunks)).toBe(
+        ['intro', '', 'middle', '', 'outro', 'appendix'].join('\n')
+      );
+    });
+
+    it('should accept identical changes on both sides', () => {
+      const changed = edit(base, 'middle', 'same change');
+      const result = mergeThreeWay(base, changed, changed);
+
+      expect(result.clean).toBe(true);
+      expect(resolveMerge(result.chunks)).toBe(changed);
+    });
+
+    it('should report overlapping changes as a conflict', () => {
+      const local = edit(base, 'middle', 'local middle');
+      const remote = edit(base, 'middle', 'remote middle');
+
+      const result = mergeThreeWay(base, local, remote);
+
+      expect(result.clean).toBe(false);
+      expect(result.conflicts).toBe(1);
+
+      const conflict = result.chunks.find(chunk => chunk.type === 'conflict');
+      expect(conflict).toEqual({
+        type: 'conflict',
+        base: ['middle'],
+        local: ['local middle'],
+        remote: ['remote middle']
+      });
+    });
+
+    it('should treat changes to adjacent lines as a conflict', () => {
+      const text = 'a\nb\nc';
+      const result = mergeThreeWay(text, 'a\nB\nc', 'a\nb\nC');
+
+      expect(result.conflicts).toBe(1);
+    });
+
+    it('should keep conflicts separate from merged changes', () => {
+      const local = edit(edit(base, 'intro', 'local intro'), 'outro', 'local outro');
+      const remote = edit(base, 'outro', 'remote outro');
+
+      const result = mergeThreeWay(base, local, remote);
+
+      expect(result.conflicts).toBe(1);
+      expect(resolveMerge(result.chunks, ['remote'])).toBe(
+        ['# Title', '', 'local intro', '', 'middle', '', 'remote outro'].join('\n')
+      );
+    });
+  });
+
+  describe('resolveMerge', () => {
+    const local = edit(base, 'middle', 'local middle');
+    const remote = edit(base, 'middle', 'remote middle');
+    const { chunks } = mergeThreeWay(base, local, remote);
+
+    it('should apply per-conflict resolutions', () => {
+      expect(resolveMerge(chunks, ['local'])).toBe(local);
+      expect(resolveMerge(chunks, ['remote'])).toBe(remote);
+      expect(resolveMerge(chunks, ['base'])).toBe(base);
+      expect(resolveMerge(chunks, ['both'])).toContain('local middle\nremote middle');
+    });
+
+    it('should write conflict markers for unresolved conflicts', () => {
+      const merged = resolveMerge(chunks);
+
+      expect(merged).toContain('<<<<<<< Your changes\nlocal middle\n=======\nremote middle\n>>>>>>> Server version');
+    });
+  });
+});
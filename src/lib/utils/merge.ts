@@ -0,0 +1,202 @@
+/**
+ * Three-way merge utilities
+ * Merges two edited copies of a page against the revision both started from
+ */
+
+import { diffSequences, splitLines } from './diff.js';
+
+export type MergeResolution = 'local' | 'remote' | 'both' | 'base';
+
+export interface MergeResolvedChunk {
+  type: 'resolved';
+  lines: string[];
+}
+
+export interface MergeConflictChunk {
+  type: 'conflict';
+  base: string[];
+  local: string[];
+  remote: string[];
+}
+
+export type MergeChunk = MergeResolvedChunk | MergeConflictChunk;
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+  clean: boolean;
+}
+
+/**
+ * Merge local and remote edits of a common base line by line.
+ * Changes that touch the same or adjacent base lines are reported as conflicts,
+ * unless both sides made the identical change.
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): MergeResult {
+  const baseLines = splitLines(base);
+  const localEdits = collectEdits(baseLines, splitLines(local), 'local');
+  const remoteEdits = collectEdits(baseLines, splitLines(remote), 'remote');
+
+  const edits = [...localEdits, ...remoteEdits].sort(
+    (a, b) => a.start - b.start || a.end - b.end
+  );
+
+  const chunks: MergeChunk[] = [];
+  let position = 0;
+  let index = 0;
+
+  while (index < edits.length) {
+    // Cluster edits whose base ranges overlap or touch
+    const cluster = [edits[index]];
+    const start = edits[index].start;
+    let end = edits[index].end;
+    index++;
+
+    while (index < edits.length && edits[index].start <= end) {
+      cluster.push(edits[index]);
+      end = Math.max(end, edits[index].end);
+      index++;
+    }
+
+    pushResolved(chunks, baseLines.slice(position, start));
+
+    const localCluster = cluster.filter(edit => edit.side === 'local');
+    const remoteCluster = cluster.filter(edit => edit.side === 'remote');
+    const localLines = applyEdits(baseLines, start, end, localCluster);
+    const remoteLines = applyEdits(baseLines, start, end, remoteCluster);
+
+    if (remoteCluster.length === 0) {
+      pushResolved(chunks, localLines);
+    } else if (localCluster.length === 0 || sameLines(localLines, remoteLines)) {
+      pushResolved(chunks, remoteLines);
+    } else {
+      chunks.push({
+        type: 'conflict',
+        base: baseLines.slice(start, end),
+        local: localLines,
+        remote: remoteLines
+      });
+    }
+
+    position = end;
+  }
+
+  pushResolved(chunks, baseLines.slice(position));
+
+  const conflicts = chunks.filter(chunk => chunk.type === 'conflict').length;
+  return { chunks, conflicts, clean: conflicts === 0 };
+}
+
+/**
+ * Build the merged text, resolving each conflict by its index.
+ * Conflicts without a resolution keep both sides between conflict markers.
+ */
+export function resolveMerge(chunks: MergeChunk[], resolutions: (MergeResolution | undefined)[] = []): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const chunk of chunks) {
+    if (chunk.type === 'resolved') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+
+    const resolution = resolutions[conflictIndex++];
+    switch (resolution) {
+      case 'local':
+        lines.push(...chunk.local);
+        break;
+      case 'remote':
+        lines.push(...chunk.remote);
+        break;
+      case 'both':
+        lines.push(...chunk.local, ...chunk.remote);
+        break;
+      case 'base':
+        lines.push(...chunk.base);
+        break;
+      default:
+        lines.push('<<<<<<< Your changes', ...chunk.local, '=======', ...chunk.remote, '>>>>>>> Server version');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Internal helpers
+
+interface Edit {
+  side: 'local' | 'remote';
+  // Replaced base range [start, end)
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Turn a line diff against the base into replacement ranges
+ */
+function collectEdits(base: string[], other: string[], side: Edit['side']): Edit[] {
+  const edits: Edit[] = [];
+  let current: Edit | null = null;
+  let position = 0;
+
+  for (const change of diffSequences(base, other)) {
+    if (change.type === 'equal') {
+      if (current) {
+        edits.push(current);
+        current = null;
+      }
+      position++;
+      continue;
+    }
+
+    if (!current) {
+      current = { side, start: position, end: position, lines: [] };
+    }
+
+    if (change.type === 'delete') {
+      position++;
+      current.end = position;
+    } else {
+      current.lines.push(change.value);
+    }
+  }
+
+  if (current) {
+    edits.push(current);
+  }
+
+  return edits;
+}
+
+/**
+ * Apply one side's edits to the base range [start, end)
+ */
+function applyEdits(base: string[], start: number, end: number, edits: Edit[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+
+  for (const edit of edits) {
+    lines.push(...base.slice(position, edit.start), ...edit.lines);
+    position = edit.end;
+  }
+  lines.push(...base.slice(position, end));
+
+  return lines;
+}
+
+function pushResolved(chunks: MergeChunk[], lines: string[]) {
+  if (lines.length === 0) return;
+
+  const last = chunks[chunks.length - 1];
+  if (last && last.type === 'resolved') {
+    last.lines.push(...lines);
+  } else {
+    chunks.push({ type: 'resolved', lines: [...lines] });
+  }
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
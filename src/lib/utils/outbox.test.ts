@@ -0,0 +1,67 @@
+/**
+ * Outbox Utilities Tests
+ * Tests for folding offline page changes into one entry per page
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addOutboxChange } from './outbox.js';
+import type { OutboxEntry } from '../types/index.js';
+
+const queuedAt = new Date('2026-01-01T00:00:00Z');
+
+function entry(id: string, type: OutboxEntry['type'], path: string, extra: Partial<OutboxEntry> = {}): OutboxEntry {
+  return { id, type, path, queuedAt, ...extra };
+}
+
+describe('Outbox Utilities', () => {
+  describe('addOutboxChange', () => {
+    it('should queue changes to different pages in order', () => {
+      const outbox = addOutboxChange([entry('1', 'update', 'a.md', { content: 'a' })], entry('2', 'create', 'b.md', { content: 'b' }));
+
+      expect(outbox.map(e => [e.id, e.type, e.path])).toEqual([
+        ['1', 'update', 'a.md'],
+        ['2', 'create', 'b.md']
+      ]);
+    });
+
+    it('should keep the base ETag and place of repeated updates', () => {
+      const outbox = addOutboxChange(
+        [entry('1', 'update', 'a.md', { content: 'v1', baseEtag: 'etag-1' }), entry('2', 'update', 'b.md', { content: 'b' })],
+        entry('3', 'update', 'a.md', { content: 'v2', baseEtag: 'etag-1' })
+      );
+
+      expect(outbox).toEqual([
+        entry('1', 'update', 'a.md', { content: 'v2', baseEtag: 'etag-1' }),
+        entry('2', 'update', 'b.md', { content: 'b' })
+      ]);
+    });
+
+    it('should keep pages created offline as creates', () => {
+      const created = [entry('1', 'create', 'a.md', { content: 'v1' })];
+
+      expect(addOutboxChange(created, entry('2', 'update', 'a.md', { content: 'v2' }))).toEqual([
+        entry('1', 'create', 'a.md', { content: 'v2' })
+      ]);
+      expect(addOutboxChange(created, entry('2', 'delete', 'a.md'))).toEqual([]);
+    });
+
+    it('should turn deletes and recreates into a delete or an update of the server page', () => {
+      const updated = [entry('1', 'update', 'a.md', { content: 'v1', baseEtag: 'etag-1' })];
+      const deleted = addOutboxChange(updated, entry('2', 'delete', 'a.md', { baseEtag: 'etag-1' }));
+
+      expect(deleted).toEqual([entry('1', 'delete', 'a.md', { baseEtag: 'etag-1' })]);
+      expect(addOutboxChange(deleted, entry('3', 'create', 'a.md', { content: 'v2' }))).toEqual([
+        entry('1', 'update', 'a.md', { content: 'v2', baseEtag: 'etag-1' })
+      ]);
+    });
+
+    it('should clear the conflict of an entry changed again', () => {
+      const outbox = addOutboxChange(
+        [entry('1', 'update', 'a.md', { content: 'v1', baseEtag: 'etag-1', conflict: true, error: 'Modified' })],
+        entry('2', 'update', 'a.md', { content: 'v2' })
+      );
+
+      expect(outbox).toEqual([entry('1', 'update', 'a.md', { content: 'v2', baseEtag: 'etag-1' })]);
+    });
+  });
+});
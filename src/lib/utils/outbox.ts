@@ -0,0 +1,53 @@
+/**
+ * Outbox utilities
+ * Queueing of page changes made while offline, one entry per page
+ */
+
+import type { OutboxEntry } from '../types/index.js';
+
+/**
+ * Add a change to the outbox, folding it into the entry already queued for the same page.
+ * The folded entry keeps its place, id and base ETag so replaying it still detects
+ * changes made on the server since the page was first edited offline.
+ */
+export function addOutboxChange(outbox: OutboxEntry[], change: OutboxEntry): OutboxEntry[] {
+  const index = outbox.findIndex(entry => entry.path === change.path);
+  if (index === -1) {
+    return [...outbox, change];
+  }
+
+  const queued = outbox[index];
+
+  // A page created offline and deleted again never has to reach the server
+  if (queued.type === 'create' && change.type === 'delete') {
+    return outbox.filter((_, i) => i !== index);
+  }
+
+  let type = change.type;
+  if (queued.type === 'create') {
+    type = 'create';
+  } else if (queued.type === 'delete' && change.type === 'create') {
+    // Recreating a page deleted offline replaces the content of the page on the server
+    type = 'update';
+  }
+
+  const merged: OutboxEntry = {
+    id: queued.id,
+    type,
+    path: change.path,
+    baseEtag: queued.baseEtag,
+    queuedAt: queued.queuedAt
+  };
+  if (type !== 'delete') {
+    merged.content = change.content;
+  }
+
+  return outbox.map((entry, i) => (i === index ? merged : entry));
+}
+
+/**
+ * Outbox entry ids only need to be unique within one browser
+ */
+export function createOutboxId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,53 @@
+/**
+ * Print Utilities Tests
+ * Tests for the pages printed for a folder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectPrintEntries } from './print.js';
+import type { PageNode } from '../types/index.js';
+
+const HIERARCHY: PageNode[] = [
+  {
+    path: 'docs',
+    title: 'docs',
+    isFolder: true,
+    children: [
+      {
+        path: 'docs/api',
+        title: 'api',
+        isFolder: true,
+        children: [{ path: 'docs/api/auth.md', title: 'Auth', isFolder: false }]
+      },
+      { path: 'docs/guide.md', title: 'Guide', isFolder: false },
+      { path: 'docs/index.md', title: 'Docs', isFolder: false }
+    ]
+  },
+  { path: 'index.md', title: 'Home', isFolder: false }
+];
+
+describe('Print Utilities', () => {
+  describe('collectPrintEntries', () => {
+    it('should list the index page first and sub-folders after the pages', () => {
+      expect(collectPrintEntries(HIERARCHY, 'docs/')).toEqual([
+        { path: 'docs/index.md', title: 'Docs', depth: 0 },
+        { path: 'docs/guide.md', title: 'Guide', depth: 0 },
+        { path: 'docs/api/auth.md', title: 'Auth', depth: 1 }
+      ]);
+    });
+
+    it('should select nested folders and the whole wiki', () => {
+      expect(collectPrintEntries(HIERARCHY, 'docs/api').map(entry => entry.path)).toEqual(['docs/api/auth.md']);
+      expect(collectPrintEntries(HIERARCHY, '').map(entry => entry.path)).toEqual([
+        'index.md',
+        'docs/index.md',
+        'docs/guide.md',
+        'docs/api/auth.md'
+      ]);
+    });
+
+    it('should return nothing for unknown folders', () => {
+      expect(collectPrintEntries(HIERARCHY, 'missing')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Print utilities
+ * Selection and ordering of the pages printed together for a folder
+ */
+
+import type { PageNode } from '../types/index.js';
+
+export interface PrintEntry {
+  path: string;
+  title: string;
+  // Folder depth below the printed folder, for indenting the table of contents
+  depth: number;
+}
+
+/**
+ * Pages below `folder` in reading order: the folder's index page first, then its pages,
+ * then each sub-folder in turn. An empty folder path selects the whole wiki.
+ */
+export function collectPrintEntries(nodes: PageNode[], folder: string): PrintEntry[] {
+  const normalized = folder.replace(/^\/+|\/+$/g, '');
+  const root = normalized ? findFolder(nodes, normalized) : nodes;
+  if (!root) return [];
+
+  const entries: PrintEntry[] = [];
+
+  const visit = (children: PageNode[], depth: number) => {
+    const pages = children.filter(node => !node.isFolder);
+    const index = pages.find(node => /(^|\/)index\.md$/i.test(node.path));
+    const ordered = index ? [index, ...pages.filter(node => node !== index)] : pages;
+
+    for (const page of ordered) {
+      entries.push({ path: page.path, title: page.title, depth });
+    }
+    for (const child of children) {
+      if (child.isFolder) visit(child.children ?? [], depth + 1);
+    }
+  };
+
+  visit(root, 0);
+  return entries;
+}
+
+function findFolder(nodes: PageNode[], path: string): PageNode[] | null {
+  for (const node of nodes) {
+    if (!node.isFolder) continue;
+    if (node.path === path) return node.children ?? [];
+    if (path.startsWith(`${node.path}/`)) return findFolder(node.children ?? [], path);
+  }
+  return null;
+}
@@ -118,6 +118,10 @@ export const routeConfigs = {
     allowGuestAccess: true,
     requireAuth: false
   },
+  view: {
+    allowGuestAccess: true,
+    requireAuth: false
+  },
   edit: {
     requireAuth: true,
     requiredPermission: 'write'
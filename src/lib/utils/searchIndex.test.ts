@@ -0,0 +1,245 @@
+/**
+ * Search Index Utilities Tests
+ * Tests for tokenization, index maintenance and ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applySearchIndexChanges,
+  createSearchIndex,
+  createSnippets,
+  markdownToPlainText,
+  rankPages,
+  stem,
+  tokenize
+} from './searchIndex.js';
+import { addSearchFilters, parseSearchQuery } from './searchQuery.js';
+import type { WikiPageMeta } from '../types/index.js';
+
+function meta(path: string, title: string, tags?: string[]): WikiPageMeta {
+  return {
+    path,
+    title,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    author: 'test',
+    tags
+  };
+}
+
+function paths(results: { page: WikiPageMeta }[]): string[] {
+  return results.map(result => result.page.path);
+}
+
+describe('Search Index Utilities', () => {
+  describe('stem', () => {
+    it('should map inflections to a shared stem', () => {
+      expect(stem('configure')).toBe(stem('configured'));
+      expect(stem('configure')).toBe(stem('configuring'));
+      expect(stem('pages')).toBe(stem('page'));
+      expect(stem('running')).toBe(stem('run'));
+      expect(stem('stories')).toBe(stem('story'));
+    });
+
+    it('should leave short words and words ending in ss alone', () => {
+      expect(stem('was')).toBe('was');
+      expect(stem('class')).toBe('class');
+      expect(stem('status')).toBe('status');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should lowercase, stem and record offsets', () => {
+      expect(tokenize('Deploying Pages')).toEqual([
+        { term: stem('deploying'), start: 0, end: 9 },
+        { term: stem('pages'), start: 10, end: 15 }
+      ]);
+    });
+
+    it('should split Japanese text into bigrams', () => {
+      expect(tokenize('会議メモ').map(token => token.term)).toEqual(['会議', '議メ', 'メモ']);
+      expect(tokenize('会 test').map(token => token.term)).toEqual(['会', 'test']);
+    });
+  });
+
+  describe('markdownToPlainText', () => {
+    it('should strip markdown syntax but keep the visible text', () => {
+      const text = markdownToPlainText(
+        '# Title\n\n- **Bold** [link](http://x.test) and [[Page|label]]\n\n```js\ncode()\n```'
+      );
+
+      expect(text).toBe('Title\n\nBold link and label\n\ncode()');
+    });
+
+    it('should leave out the front matter', () => {
+      expect(markdownToPlainText('---\ntags: [secret]\n---\n\nVisible')).toBe('Visible');
+    });
+  });
+
+  describe('applySearchIndexChanges', () => {
+    it('should store term positions per page', () => {
+      const index = applySearchIndexChanges(createSearchIndex(), {
+        'a.md': 'alpha beta alpha'
+      });
+
+      expect(index.terms.alpha).toEqual({ 'a.md': [0, 2] });
+      expect(index.documents['a.md']).toEqual({ text: 'alpha beta alpha', length: 3 });
+    });
+
+    it('should replace and remove pages without leaving stale terms', () => {
+      const index = applySearchIndexChanges(createSearchIndex(), {
+        'a.md': 'alpha beta',
+        'b.md': 'beta'
+      });
+
+      applySearchIndexChanges(index, { 'a.md': 'gamma', 'b.md': null });
+
+      expect(Object.keys(index.terms).sort()).toEqual(['gamma']);
+      expect(Object.keys(index.documents)).toEqual(['a.md']);
+    });
+
+    it('should index words that are Object.prototype keys', () => {
+      const pages = [meta('a.md', 'A'), meta('b.md', 'B')];
+      const content = { 'a.md': 'The constructor runs first', 'b.md': 'Never assign __proto__' };
+      const created = applySearchIndexChanges(createSearchIndex(), content);
+      // Stored indexes come back from JSON with ordinary objects
+      const stored = applySearchIndexChanges(JSON.parse(JSON.stringify(createSearchIndex())), content);
+
+      for (const index of [created, stored]) {
+        expect(paths(rankPages(index, pages, parseSearchQuery('constructor')))).toEqual(['a.md']);
+        expect(paths(rankPages(index, pages, parseSearchQuery('__proto__')))).toEqual(['b.md']);
+        expect(paths(rankPages(index, pages, parseSearchQuery('"assign __proto__"')))).toEqual(['b.md']);
+        expect(paths(rankPages(index, pages, parseSearchQuery('"constructor runs"')))).toEqual(['a.md']);
+
+        applySearchIndexChanges(index, { 'a.md': null, 'b.md': null });
+        expect(Object.keys(index.terms)).toEqual([]);
+      }
+    });
+  });
+
+  describe('rankPages', () => {
+    const pages = [
+      meta('guides/deploy.md', 'Deployment Guide'),
+      meta('notes.md', 'Notes', ['deploy']),
+      meta('log.md', 'Log'),
+      meta('other.md', 'Other')
+    ];
+    const index = applySearchIndexChanges(createSearchIndex(), {
+      'guides/deploy.md': 'How to deploy the wiki.',
+      'notes.md': 'Random notes.',
+      'log.md': 'We deployed twice and deploying again tomorrow.',
+      'other.md': 'Nothing relevant here.'
+    });
+
+    it('should rank title matches above tags and content', () => {
+      const results = rankPages(index, pages, parseSearchQuery('deploy'));
+
+      expect(results.map(result => result.page.path)).toEqual(['guides/deploy.md', 'notes.md', 'log.md']);
+    });
+
+    it('should require every term to match', () => {
+      expect(rankPages(index, pages, parseSearchQuery('deploy tomorrow')).map(result => result.page.path)).toEqual(['log.md']);
+      expect(rankPages(index, pages, parseSearchQuery('deploy missing'))).toEqual([]);
+    });
+
+    it('should match prefixes while typing', () => {
+      expect(rankPages(index, pages, parseSearchQuery('tomor')).map(result => result.page.path)).toEqual(['log.md']);
+    });
+
+    it('should return the positions of content matches', () => {
+      const [result] = rankPages(index, pages, parseSearchQuery('tomorrow'));
+      expect(result.positions).toEqual([6]);
+    });
+
+    it('should return nothing for queries without terms', () => {
+      expect(rankPages(index, pages, parseSearchQuery('  !? '))).toEqual([]);
+    });
+
+    it('should match quoted phrases only as consecutive words', () => {
+      expect(paths(rankPages(index, pages, parseSearchQuery('"deploying again"')))).toEqual(['log.md']);
+      expect(paths(rankPages(index, pages, parseSearchQuery('"again deploying"')))).toEqual([]);
+    });
+
+    it('should exclude pages matching negated clauses', () => {
+      expect(paths(rankPages(index, pages, parseSearchQuery('deploy -tomorrow')))).toEqual([
+        'guides/deploy.md',
+        'notes.md'
+      ]);
+      expect(paths(rankPages(index, pages, parseSearchQuery('deploy -tag:deploy')))).toEqual([
+        'guides/deploy.md',
+        'log.md'
+      ]);
+    });
+
+    it('should combine groups separated by OR', () => {
+      expect(paths(rankPages(index, pages, parseSearchQuery('nothing OR random')))).toEqual(['notes.md', 'other.md']);
+    });
+
+    it('should apply added tag filters to every OR group', () => {
+      const query = parseSearchQuery(addSearchFilters('nothing OR random', ['tag:deploy']));
+
+      expect(paths(rankPages(index, pages, query))).toEqual(['notes.md']);
+    });
+
+    it('should filter by tag, author, path and update date', () => {
+      const dated = [
+        { ...meta('a.md', 'A', ['ops']), author: 'alice', updatedAt: new Date(2026, 0, 1, 15) },
+        { ...meta('docs/b.md', 'B'), author: 'bob', updatedAt: new Date(2026, 0, 2, 9) }
+      ];
+
+      expect(paths(rankPages(index, dated, parseSearchQuery('tag:OPS')))).toEqual(['a.md']);
+      expect(paths(rankPages(index, dated, parseSearchQuery('author:bo')))).toEqual(['docs/b.md']);
+      expect(paths(rankPages(index, dated, parseSearchQuery('path:/docs/')))).toEqual(['docs/b.md']);
+      expect(paths(rankPages(index, dated, parseSearchQuery('updated:>2026-01-01')))).toEqual(['docs/b.md']);
+      expect(paths(rankPages(index, dated, parseSearchQuery('updated:<=2026-01-01')))).toEqual(['a.md']);
+      expect(paths(rankPages(index, dated, parseSearchQuery('updated:2026-01-02')))).toEqual(['docs/b.md']);
+    });
+  });
+
+  describe('createSnippets', () => {
+    const words = Array.from({ length: 40 }, (_, i) => `w${i}`);
+    const index = applySearchIndexChanges(createSearchIndex(), {
+      'long.md': words.join(' '),
+      'jp.md': '今日は会議室で打ち合わせ'
+    });
+
+    function highlighted(snippet: { text: string; highlights: { start: number; end: number }[] }): string[] {
+      return snippet.highlights.map(range => snippet.text.slice(range.start, range.end));
+    }
+
+    it('should cut context around hits and mark the matched words', () => {
+      const [snippet] = createSnippets(index, 'long.md', [20]);
+
+      expect(snippet.text).toBe('… w14 w15 w16 w17 w18 w19 w20 w21 w22 w23 w24 w25 w26 …');
+      expect(highlighted(snippet)).toEqual(['w20']);
+    });
+
+    it('should merge nearby hits and split distant ones', () => {
+      const snippets = createSnippets(index, 'long.md', [2, 5, 30]);
+
+      expect(snippets).toHaveLength(2);
+      expect(snippets[0].text.startsWith('w0 ')).toBe(true);
+      expect(highlighted(snippets[0])).toEqual(['w2', 'w5']);
+      expect(highlighted(snippets[1])).toEqual(['w30']);
+    });
+
+    it('should limit the number of snippets per page', () => {
+      expect(createSnippets(index, 'long.md', [0, 13, 26, 39])).toHaveLength(3);
+    });
+
+    it('should merge overlapping bigram hits', () => {
+      const results = rankPages(index, [meta('jp.md', 'JP')], parseSearchQuery('会議室'));
+      const [snippet] = createSnippets(index, 'jp.md', results[0].positions);
+
+      expect(highlighted(snippet)).toEqual(['会議室']);
+    });
+
+    it('should fall back to the start of the page without content hits', () => {
+      const [snippet] = createSnippets(index, 'long.md', []);
+
+      expect(snippet.text).toBe('w0 w1 w2 w3 w4 w5 w6 w7 w8 w9 w10 w11 …');
+      expect(snippet.highlights).toEqual([]);
+      expect(createSnippets(index, 'missing.md', [])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,572 @@
+/**
+ * Full-text search index utilities
+ * Tokenization, stemming and an inverted index with token positions, ranked with BM25
+ */
+
+import type { SearchIndex, SearchResult, SearchSnippet, WikiPageMeta } from '../types/index.js';
+import type { DateOperator, SearchClause, SearchQuery } from './searchQuery.js';
+import { stripFrontMatter } from './frontMatter.js';
+
+/**
+ * Bumped whenever tokenization changes, so stored indexes are rebuilt
+ */
+export const SEARCH_INDEX_FORMAT = 2;
+
+export interface SearchToken {
+  term: string;
+  // Character offsets of the token in the tokenized text
+  start: number;
+  end: number;
+}
+
+export interface RankedPage {
+  page: WikiPageMeta;
+  score: number;
+  // Token positions of content matches, in document order
+  positions: number[];
+}
+
+// Chinese, Japanese and Korean text has no spaces, so it is indexed as character bigrams
+const CJK = '[\\p{scx=Han}\\p{scx=Hiragana}\\p{scx=Katakana}\\p{scx=Hangul}]';
+const TOKEN_PATTERN = new RegExp(`${CJK}+|(?:(?!${CJK})[\\p{L}\\p{N}\\p{M}])+`, 'gu');
+const CJK_PATTERN = new RegExp(`^${CJK}`, 'u');
+
+// Suffixes removed by the stemmer, longest first
+const STEM_SUFFIXES: [string, string][] = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['iveness', 'ive'],
+  ['ousness', 'ous'],
+  ['sses', 'ss'],
+  ['ies', 'y'],
+  ['ied', 'y'],
+  ['ing', ''],
+  ['ed', ''],
+  ['s', '']
+];
+
+// Words of context around each hit, and hits shown per page
+const SNIPPET_CONTEXT = 6;
+const MAX_SNIPPETS = 3;
+
+// Field weights for a query term matching page metadata
+const TITLE_WEIGHT = 10;
+const TAG_WEIGHT = 6;
+const PATH_WEIGHT = 4;
+// Prefix matches count for less than whole-word matches
+const PREFIX_FACTOR = 0.5;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Light English stemmer: strips common inflections so that
+ * "configure", "configured" and "configuring" share a term
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+  for (const [suffix, replacement] of STEM_SUFFIXES) {
+    if (!result.endsWith(suffix)) continue;
+    if (suffix === 's' && /(?:ss|us|is)$/.test(result)) break;
+
+    const candidate = result.slice(0, -suffix.length) + replacement;
+    if (candidate.length >= 3) {
+      result = candidate;
+    }
+    break;
+  }
+
+  // "running" -> "runn" -> "run"
+  if (/([b-df-hj-np-rtv-z])\1$/.test(result) && !/(?:ll|ss|zz)$/.test(result) && result !== word) {
+    result = result.slice(0, -1);
+  }
+
+  // "page" and "paging" both become "pag"
+  if (result.endsWith('e') && result.length > 3) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Split text into normalized search terms with their offsets
+ */
+export function tokenize(text: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const word = match[0];
+    const start = match.index ?? 0;
+
+    if (CJK_PATTERN.test(word)) {
+      const chars = Array.from(word);
+      let offset = start;
+      if (chars.length === 1) {
+        tokens.push({ term: word, start, end: start + word.length });
+        continue;
+      }
+      for (let i = 0; i < chars.length - 1; i++) {
+        const bigram = chars[i] + chars[i + 1];
+        tokens.push({ term: bigram, start: offset, end: offset + bigram.length });
+        offset += chars[i].length;
+      }
+      continue;
+    }
+
+    tokens.push({
+      term: stem(word.normalize('NFKC').toLowerCase()),
+      start,
+      end: start + word.length
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Reduce markdown to the text a reader sees, keeping line breaks for snippets
+ */
+export function markdownToPlainText(content: string): string {
+  return stripFrontMatter(content)
+    .replace(/^[ \t]*(?:```|~~~).*(?:\n|$)/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[\[([^\[\]\n|]+)(?:\|([^\[\]\n]+))?\]\]/g, (_match, target: string, label?: string) => label || target)
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>\n]+>/g, '')
+    .replace(/^[ \t]{0,3}(?:#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/[*~`]+/g, '')
+    .trim();
+}
+
+/**
+ * Create an empty index.
+ * The maps have no prototype, so terms like "constructor" are ordinary keys.
+ */
+export function createSearchIndex(): SearchIndex {
+  return { format: SEARCH_INDEX_FORMAT, documents: Object.create(null), terms: Object.create(null) };
+}
+
+/**
+ * Add, replace (content) or remove (null) pages in the index.
+ * The index is updated in place, since it can be large.
+ */
+export function applySearchIndexChanges(index: SearchIndex, changes: Record<string, string | null>): SearchIndex {
+  for (const [path, content] of Object.entries(changes)) {
+    removeDocument(index, path);
+    if (content !== null) {
+      addDocument(index, path, content);
+    }
+  }
+  return index;
+}
+
+/**
+ * Rank pages against a parsed query.
+ * A page matches when every clause of at least one OR group matches; plain words
+ * can match the title, tags, path or content of a page.
+ */
+export function rankPages(index: SearchIndex, pages: WikiPageMeta[], query: SearchQuery): RankedPage[] {
+  if (query.groups.length === 0) {
+    return [];
+  }
+
+  const documentCount = Math.max(Object.keys(index.documents).length, 1);
+  const context: ScoringContext = {
+    index,
+    documentCount,
+    averageLength: Object.values(index.documents).reduce((sum, doc) => sum + doc.length, 0) / documentCount || 1,
+    expansions: new Map()
+  };
+  const results: RankedPage[] = [];
+
+  for (const page of pages) {
+    const fields: PageFields = {
+      page,
+      title: terms(page.title),
+      tags: terms((page.tags || []).join(' ')),
+      path: terms(page.path.replace(/\.md$/i, ''))
+    };
+
+    let best: number | null = null;
+    const positions = new Set<number>();
+
+    for (const group of query.groups) {
+      const match = matchGroup(context, fields, group);
+      if (match) {
+        best = Math.max(best ?? 0, match.score);
+        match.positions.forEach(position => positions.add(position));
+      }
+    }
+
+    if (best !== null) {
+      results.push({ page, score: best, positions: [...positions].sort((a, b) => a - b) });
+    }
+  }
+
+  return results.sort(compareRankedPages);
+}
+
+/**
+ * Build snippets of the content around matched token positions.
+ * Hits close to each other share a snippet; pages matched by title only get the start of the page.
+ */
+export function createSnippets(index: SearchIndex, path: string, positions: number[]): SearchSnippet[] {
+  const doc = getEntry(index.documents, path);
+  if (!doc) {
+    return [];
+  }
+
+  const tokens = tokenize(doc.text);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  if (positions.length === 0) {
+    return [buildSnippet(doc.text, tokens, 0, Math.min(tokens.length, SNIPPET_CONTEXT * 2) - 1, [])];
+  }
+
+  // Merge hits whose context windows overlap
+  const windows: { from: number; to: number; hits: number[] }[] = [];
+  for (const position of positions) {
+    const from = Math.max(0, position - SNIPPET_CONTEXT);
+    const to = Math.min(tokens.length - 1, position + SNIPPET_CONTEXT);
+    const last = windows[windows.length - 1];
+
+    if (last && from <= last.to) {
+      last.to = Math.max(last.to, to);
+      last.hits.push(position);
+    } else if (windows.length < MAX_SNIPPETS) {
+      windows.push({ from, to, hits: [position] });
+    } else {
+      break;
+    }
+  }
+
+  return windows.map(window => buildSnippet(doc.text, tokens, window.from, window.to, window.hits));
+}
+
+/**
+ * Combine a ranked page with snippets of its matches
+ */
+export function toSearchResult(index: SearchIndex, ranked: RankedPage): SearchResult {
+  return {
+    ...ranked.page,
+    score: ranked.score,
+    snippets: createSnippets(index, ranked.page.path, ranked.positions)
+  };
+}
+
+// Internal helpers
+
+function buildSnippet(text: string, tokens: SearchToken[], from: number, to: number, hits: number[]): SearchSnippet {
+  const isFirst = from === 0;
+  const isLast = to === tokens.length - 1;
+  // Keep punctuation before the first and after the last word of the page
+  const start = isFirst ? 0 : tokens[from].start;
+  const end = isLast ? text.length : tokens[to].end;
+  const prefix = isFirst ? '' : '… ';
+  const suffix = isLast ? '' : ' …';
+
+  // Whitespace is replaced one for one so that offsets stay valid
+  const body = text.slice(start, end).replace(/\s/g, ' ');
+
+  const highlights: SearchSnippet['highlights'] = [];
+  for (const hit of hits) {
+    const token = tokens[hit];
+    const range = { start: token.start - start + prefix.length, end: token.end - start + prefix.length };
+    const previous = highlights[highlights.length - 1];
+
+    // CJK bigrams overlap, so neighbouring hits are merged into one range
+    if (previous && range.start <= previous.end) {
+      previous.end = Math.max(previous.end, range.end);
+    } else {
+      highlights.push(range);
+    }
+  }
+
+  return { text: prefix + body + suffix, highlights };
+}
+
+interface ScoringContext {
+  index: SearchIndex;
+  documentCount: number;
+  averageLength: number;
+  // Query term -> matching index terms, shared by all pages
+  expansions: Map<string, [string, number][]>;
+}
+
+interface PageFields {
+  page: WikiPageMeta;
+  title: string[];
+  tags: string[];
+  path: string[];
+}
+
+interface ClauseMatch {
+  score: number;
+  positions: number[];
+}
+
+function terms(text: string): string[] {
+  return tokenize(text).map(token => token.term);
+}
+
+function matchGroup(context: ScoringContext, fields: PageFields, group: SearchClause[]): ClauseMatch | null {
+  let score = 0;
+  const positions: number[] = [];
+
+  for (const clause of group) {
+    const match = matchClause(context, fields, clause);
+    if (clause.negated ? match !== null : match === null) {
+      return null;
+    }
+    if (match && !clause.negated) {
+      score += match.score;
+      positions.push(...match.positions);
+    }
+  }
+
+  return { score, positions };
+}
+
+function matchClause(context: ScoringContext, fields: PageFields, clause: SearchClause): ClauseMatch | null {
+  const filter = matchesFieldClause(clause, fields.page);
+  if (filter !== null) {
+    return filter ? { score: 0, positions: [] } : null;
+  }
+
+  if (clause.type === 'phrase') {
+    return matchPhrase(context, fields, terms(clause.value));
+  }
+
+  if (clause.type !== 'term') {
+    return null;
+  }
+
+  // Excluded words only match whole words, so "-draft" does not hide "drafting"
+  let score = 0;
+  const positions: number[] = [];
+  for (const term of terms(clause.value)) {
+    const match = matchTerm(context, fields, term, clause.negated);
+    if (!match) return null;
+    score += match.score;
+    positions.push(...match.positions);
+  }
+  return { score, positions };
+}
+
+function matchTerm(context: ScoringContext, fields: PageFields, term: string, exact: boolean): ClauseMatch | null {
+  const { index } = context;
+  const doc = getEntry(index.documents, fields.page.path);
+  const positions: number[] = [];
+
+  let score =
+    fieldScore(fields.title, term, exact) * TITLE_WEIGHT +
+    fieldScore(fields.tags, term, exact) * TAG_WEIGHT +
+    fieldScore(fields.path, term, exact) * PATH_WEIGHT;
+
+  if (doc) {
+    for (const [indexTerm, factor] of expandTerm(context, term)) {
+      if (exact && indexTerm !== term) continue;
+
+      const postings = index.terms[indexTerm];
+      const hits = getEntry(postings, fields.page.path);
+      if (!hits) continue;
+
+      const idf = inverseDocumentFrequency(context, Object.keys(postings).length);
+      score += factor * idf * termFrequencyScore(context, hits.length, doc.length);
+      positions.push(...hits);
+    }
+  }
+
+  return score > 0 ? { score, positions } : null;
+}
+
+/**
+ * Match consecutive terms in the title or content
+ */
+function matchPhrase(context: ScoringContext, fields: PageFields, phrase: string[]): ClauseMatch | null {
+  const { index } = context;
+  const doc = getEntry(index.documents, fields.page.path);
+  const positions: number[] = [];
+  let score = containsSequence(fields.title, phrase) ? TITLE_WEIGHT * phrase.length : 0;
+
+  const postings = phrase.map(term => {
+    const termPostings = getEntry(index.terms, term);
+    return termPostings && getEntry(termPostings, fields.page.path);
+  });
+  if (doc && postings.every(Boolean)) {
+    const following = postings.slice(1).map(hits => new Set(hits));
+    let count = 0;
+
+    for (const start of postings[0]!) {
+      if (following.every((hits, offset) => hits.has(start + offset + 1))) {
+        count++;
+        for (let offset = 0; offset < phrase.length; offset++) {
+          positions.push(start + offset);
+        }
+      }
+    }
+
+    if (count > 0) {
+      score += phrase.length * termFrequencyScore(context, count, doc.length);
+    }
+  }
+
+  return score > 0 ? { score, positions } : null;
+}
+
+/**
+ * Check the metadata filters (tag, author, path, updated) of a clause against a page.
+ * Returns null for clauses that match content.
+ */
+function matchesFieldClause(
+  clause: SearchClause,
+  page: { path: string; author: string; updatedAt: Date; tags?: string[] }
+): boolean | null {
+  switch (clause.type) {
+    case 'tag': {
+      const tag = clause.value.toLowerCase();
+      return (page.tags || []).some(pageTag => pageTag.toLowerCase() === tag);
+    }
+    case 'author':
+      return page.author.toLowerCase().includes(clause.value.toLowerCase());
+    case 'path':
+      return page.path.toLowerCase().startsWith(clause.value.replace(/^\/+/, '').toLowerCase());
+    case 'updated':
+      return compareDay(new Date(page.updatedAt), clause.date, clause.operator);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compare a timestamp with a calendar day in local time
+ */
+function compareDay(value: Date, day: Date, operator: DateOperator): boolean {
+  const dayStart = day.getTime();
+  const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+  const time = value.getTime();
+
+  switch (operator) {
+    case '>':
+      return time >= nextDay;
+    case '>=':
+      return time >= dayStart;
+    case '<':
+      return time < dayStart;
+    case '<=':
+      return time < nextDay;
+    case '=':
+      return time >= dayStart && time < nextDay;
+  }
+}
+
+function inverseDocumentFrequency(context: ScoringContext, df: number): number {
+  return Math.log(1 + (context.documentCount - df + 0.5) / (df + 0.5));
+}
+
+function termFrequencyScore(context: ScoringContext, tf: number, length: number): number {
+  return (tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / context.averageLength));
+}
+
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((term, offset) => haystack[i + offset] === term)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function addDocument(index: SearchIndex, path: string, content: string): void {
+  const text = markdownToPlainText(content);
+  const tokens = tokenize(text);
+
+  tokens.forEach((token, position) => {
+    const postings: Record<string, number[]> =
+      getEntry(index.terms, token.term) ?? setEntry(index.terms, token.term, Object.create(null));
+    (getEntry(postings, path) ?? setEntry(postings, path, [])).push(position);
+  });
+
+  setEntry(index.documents, path, { text, length: tokens.length });
+}
+
+function removeDocument(index: SearchIndex, path: string): void {
+  const doc = getEntry(index.documents, path);
+  if (!doc) return;
+
+  for (const term of new Set(tokenize(doc.text).map(token => token.term))) {
+    const postings = getEntry(index.terms, term);
+    if (!postings) continue;
+    delete postings[path];
+    if (Object.keys(postings).length === 0) {
+      delete index.terms[term];
+    }
+  }
+
+  delete index.documents[path];
+}
+
+/**
+ * Read a key of an index map without falling back to Object.prototype.
+ * Stored indexes are parsed from JSON, so their maps still have a prototype.
+ */
+function getEntry<T>(map: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(map, key) ? map[key] : undefined;
+}
+
+/**
+ * Write a key of an index map; a plain assignment to "__proto__" would replace the prototype
+ */
+function setEntry<T>(map: Record<string, T>, key: string, value: T): T {
+  Object.defineProperty(map, key, { value, writable: true, enumerable: true, configurable: true });
+  return value;
+}
+
+/**
+ * Index terms a query term matches, with their weight: the term itself and longer terms it prefixes
+ */
+function expandTerm(context: ScoringContext, term: string): [string, number][] {
+  const cached = context.expansions.get(term);
+  if (cached) return cached;
+
+  const matches: [string, number][] = [];
+  for (const indexTerm of Object.keys(context.index.terms)) {
+    if (indexTerm === term) {
+      matches.push([indexTerm, 1]);
+    } else if (indexTerm.startsWith(term)) {
+      matches.push([indexTerm, PREFIX_FACTOR]);
+    }
+  }
+  context.expansions.set(term, matches);
+  return matches;
+}
+
+function fieldScore(fieldTerms: string[], term: string, exact: boolean): number {
+  if (fieldTerms.includes(term)) return 1;
+  return !exact && fieldTerms.some(candidate => candidate.startsWith(term)) ? PREFIX_FACTOR : 0;
+}
+
+/**
+ * Highest score first, then shallower pages, then the most recently updated
+ */
+function compareRankedPages(a: RankedPage, b: RankedPage): number {
+  if (a.score !== b.score) {
+    return b.score - a.score;
+  }
+
+  const aDepth = a.page.path.split('/').length;
+  const bDepth = b.page.path.split('/').length;
+  if (aDepth !== bDepth) {
+    return aDepth - bDepth;
+  }
+
+  return new Date(b.page.updatedAt).getTime() - new Date(a.page.updatedAt).getTime();
+}
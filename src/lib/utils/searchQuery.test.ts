@@ -0,0 +1,144 @@
+/**
+ * Search Query Parser Tests
+ * Tests for field filters, phrases, exclusions, OR groups and syntax errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addSearchFilters, getQueryTerms, parseSearchQuery, quoteSearchValue } from './searchQuery.js';
+import { ErrorCodes, WikiError } from '../types/index.js';
+
+function parseError(query: string): WikiError {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    return error as WikiError;
+  }
+  throw new Error(`Expected "${query}" to be rejected`);
+}
+
+describe('Search Query Parser', () => {
+  describe('parseSearchQuery', () => {
+    it('should parse plain words, phrases and exclusions', () => {
+      expect(parseSearchQuery('deploy "release notes" -draft')).toEqual({
+        groups: [
+          [
+            { type: 'term', value: 'deploy', negated: false },
+            { type: 'phrase', value: 'release notes', negated: false },
+            { type: 'term', value: 'draft', negated: true }
+          ]
+        ]
+      });
+    });
+
+    it('should parse field filters with bare or quoted values', () => {
+      expect(parseSearchQuery('tag:ops author:alice path:"team docs/" -tag:old').groups[0]).toEqual([
+        { type: 'tag', value: 'ops', negated: false },
+        { type: 'author', value: 'alice', negated: false },
+        { type: 'path', value: 'team docs/', negated: false },
+        { type: 'tag', value: 'old', negated: true }
+      ]);
+    });
+
+    it('should read escaped quotes and backslashes inside quoted values', () => {
+      expect(parseSearchQuery('tag:"say \\"hi\\"" path:"a\\\\b\\c"').groups[0]).toEqual([
+        { type: 'tag', value: 'say "hi"', negated: false },
+        { type: 'path', value: 'a\\b\\c', negated: false }
+      ]);
+
+      for (const tag of ['say "hi"', 'back\\slash', 'end\\', 'two words']) {
+        expect(parseSearchQuery(`deploy tag:${quoteSearchValue(tag)}`).groups[0][1]).toEqual({
+          type: 'tag',
+          value: tag,
+          negated: false
+        });
+      }
+    });
+
+    it('should parse update dates with comparison operators', () => {
+      const [clause] = parseSearchQuery('updated:>=2026-01-31').groups[0];
+
+      expect(clause).toEqual({ type: 'updated', operator: '>=', date: new Date(2026, 0, 31), negated: false });
+      expect(parseSearchQuery('updated:2026-01-31').groups[0][0]).toMatchObject({ operator: '=' });
+    });
+
+    it('should split groups on OR', () => {
+      const query = parseSearchQuery('alpha beta OR tag:gamma');
+
+      expect(query.groups).toHaveLength(2);
+      expect(query.groups[0].map(clause => clause.type)).toEqual(['term', 'term']);
+      expect(query.groups[1]).toEqual([{ type: 'tag', value: 'gamma', negated: false }]);
+    });
+
+    it('should treat unknown fields and lowercase "or" as words', () => {
+      expect(parseSearchQuery('http://example.com this or that').groups[0].map(clause => ('value' in clause ? clause.value : null))).toEqual([
+        'http://example.com',
+        'this',
+        'or',
+        'that'
+      ]);
+    });
+
+    it('should ignore words without searchable characters', () => {
+      expect(parseSearchQuery('  !! "" ')).toEqual({ groups: [] });
+    });
+  });
+
+  describe('syntax errors', () => {
+    it('should report the position of unterminated phrases', () => {
+      const error = parseError('deploy "release notes');
+
+      expect(error.code).toBe(ErrorCodes.INVALID_SEARCH_QUERY);
+      expect(error.details).toEqual({ start: 7, end: 21 });
+    });
+
+    it('should reject misplaced OR operators', () => {
+      expect(parseError('OR deploy').details).toEqual({ start: 0, end: 2 });
+      expect(parseError('deploy OR').details).toEqual({ start: 7, end: 9 });
+      expect(parseError('a OR OR b').details).toEqual({ start: 5, end: 7 });
+    });
+
+    it('should reject empty field values, dangling exclusions and invalid dates', () => {
+      expect(parseError('tag: ops').details).toEqual({ start: 0, end: 4 });
+      expect(parseError('deploy - draft').details).toEqual({ start: 7, end: 8 });
+      expect(parseError('updated:>2026-02-30').message).toContain('Invalid date');
+      expect(parseError('updated:yesterday').details).toEqual({ start: 0, end: 17 });
+    });
+  });
+
+  describe('addSearchFilters', () => {
+    it('should add the filters to every OR group', () => {
+      const query = addSearchFilters('deploy OR "run book"', ['tag:ops']);
+
+      expect(query).toBe('deploy tag:ops OR "run book" tag:ops');
+      expect(parseSearchQuery(query).groups).toEqual([
+        [
+          { type: 'term', value: 'deploy', negated: false },
+          { type: 'tag', value: 'ops', negated: false }
+        ],
+        [
+          { type: 'phrase', value: 'run book', negated: false },
+          { type: 'tag', value: 'ops', negated: false }
+        ]
+      ]);
+    });
+
+    it('should keep words containing OR and use the filters alone for an empty query', () => {
+      expect(addSearchFilters('ORDER "a OR b"', ['tag:x'])).toBe('ORDER "a OR b" tag:x');
+      expect(addSearchFilters('  ', ['tag:x', 'tag:y'])).toBe('tag:x tag:y');
+      expect(addSearchFilters('a OR b', [])).toBe('a OR b');
+    });
+
+    it('should reject invalid queries instead of completing them', () => {
+      expect(() => addSearchFilters('deploy OR', ['tag:ops'])).toThrow(WikiError);
+    });
+  });
+
+  describe('getQueryTerms', () => {
+    it('should return positive words and phrases', () => {
+      expect(getQueryTerms(parseSearchQuery('deploy "release notes" -draft tag:ops OR deploy'))).toEqual([
+        'deploy',
+        'release notes'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Search query language
+ * Parses queries like `deploy tag:ops -draft "release notes" OR path:docs/ updated:>2026-01-01`
+ */
+
+import { WikiError, ErrorCodes } from '../types/index.js';
+import { tokenize } from './searchIndex.js';
+
+export type SearchClause =
+  | { type: 'term' | 'phrase'; value: string; negated: boolean }
+  | { type: 'tag' | 'author' | 'path'; value: string; negated: boolean }
+  | { type: 'updated'; operator: DateOperator; date: Date; negated: boolean };
+
+export type DateOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export interface SearchQuery {
+  // Alternatives separated by OR; every clause of a group has to match
+  groups: SearchClause[][];
+}
+
+/**
+ * Location of a syntax error, attached as `details` of INVALID_SEARCH_QUERY errors
+ */
+export interface SearchQueryErrorDetails {
+  start: number;
+  end: number;
+}
+
+const FIELDS = ['tag', 'author', 'path', 'updated'] as const;
+const DATE_PATTERN = /^(>=|<=|>|<|=)?(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a search query.
+ * Throws a WikiError with code INVALID_SEARCH_QUERY and the error location as details.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  return { groups: parseGroups(input).groups };
+}
+
+/**
+ * Add filters like `tag:ops` to every OR group of a query, so they narrow all of its results.
+ * Throws like parseSearchQuery if the query is invalid.
+ */
+export function addSearchFilters(input: string, filters: string[]): string {
+  if (filters.length === 0) {
+    return input;
+  }
+
+  const clauses = filters.join(' ');
+  const { orStarts } = parseGroups(input);
+  let result = '';
+  let groupStart = 0;
+
+  for (const orStart of [...orStarts, input.length]) {
+    const group = input.slice(groupStart, orStart).trim();
+    result += `${result ? ' OR ' : ''}${group ? `${group} ` : ''}${clauses}`;
+    groupStart = orStart + 2;
+  }
+  return result;
+}
+
+/**
+ * Plain words and phrases of a query, used for highlighting matches
+ */
+export function getQueryTerms(query: SearchQuery): string[] {
+  const terms = new Set<string>();
+  for (const group of query.groups) {
+    for (const clause of group) {
+      if ((clause.type === 'term' || clause.type === 'phrase') && !clause.negated) {
+        terms.add(clause.value);
+      }
+    }
+  }
+  return [...terms];
+}
+
+/**
+ * Quote a value for use in a query, e.g. `tag:${quoteSearchValue(tag)}`
+ */
+export function quoteSearchValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+// Internal helpers
+
+/**
+ * Parse the clauses of a query and record where its OR operators start
+ */
+function parseGroups(input: string): { groups: SearchClause[][]; orStarts: number[] } {
+  const groups: SearchClause[][] = [[]];
+  const orStarts: number[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-';
+    if (negated) {
+      i++;
+      if (i >= input.length || /\s/.test(input[i])) {
+        throw syntaxError('Expected a search term after "-"', start, i);
+      }
+    }
+
+    const field = /^([a-z]+):/i.exec(input.slice(i));
+    const fieldName = field?.[1].toLowerCase() as (typeof FIELDS)[number] | undefined;
+
+    if (field && fieldName && FIELDS.includes(fieldName)) {
+      const { value, end } = readValue(input, i + field[0].length, start);
+      if (!value) {
+        throw syntaxError(`Missing value after "${field[0]}"`, start, end);
+      }
+      groups[groups.length - 1].push(createFieldClause(fieldName, value, negated, start, end));
+      i = end;
+      continue;
+    }
+
+    if (input[i] === '"') {
+      const { value, end } = readValue(input, i, start);
+      if (tokenize(value).length > 0) {
+        groups[groups.length - 1].push({ type: 'phrase', value, negated });
+      }
+      i = end;
+      continue;
+    }
+
+    const { value, end } = readValue(input, i, start);
+    i = end;
+
+    if (value === 'OR' && !negated) {
+      if (groups[groups.length - 1].length === 0) {
+        throw syntaxError('"OR" must come between two search terms', start, end);
+      }
+      groups.push([]);
+      orStarts.push(start);
+      continue;
+    }
+
+    if (tokenize(value).length > 0) {
+      groups[groups.length - 1].push({ type: 'term', value, negated });
+    }
+  }
+
+  if (groups.length > 1 && groups[groups.length - 1].length === 0) {
+    const orStart = orStarts[orStarts.length - 1];
+    throw syntaxError('"OR" must come between two search terms', orStart, orStart + 2);
+  }
+
+  return { groups: groups.filter(group => group.length > 0), orStarts };
+}
+
+/**
+ * Read a bare word or a quoted string starting at `index`
+ */
+function readValue(input: string, index: number, clauseStart: number): { value: string; end: number } {
+  if (input[index] === '"') {
+    let value = '';
+    for (let i = index + 1; i < input.length; i++) {
+      if (input[i] === '"') {
+        return { value: value.trim(), end: i + 1 };
+      }
+      // Quotes and backslashes inside quoted strings are escaped with a backslash
+      if (input[i] === '\\' && (input[i + 1] === '"' || input[i + 1] === '\\')) {
+        i++;
+      }
+      value += input[i];
+    }
+    throw syntaxError('Missing closing quote', clauseStart, input.length);
+  }
+
+  let end = index;
+  while (end < input.length && !/\s/.test(input[end])) {
+    end++;
+  }
+  return { value: input.slice(index, end), end };
+}
+
+function createFieldClause(
+  field: (typeof FIELDS)[number],
+  value: string,
+  negated: boolean,
+  start: number,
+  end: number
+): SearchClause {
+  if (field !== 'updated') {
+    return { type: field, value, negated };
+  }
+
+  const match = DATE_PATTERN.exec(value);
+  const date = match ? new Date(Number(match[2]), Number(match[3]) - 1, Number(match[4])) : null;
+
+  // Reject dates like 2026-02-30 that Date silently rolls over
+  if (!match || !date || date.getMonth() !== Number(match[3]) - 1 || date.getDate() !== Number(match[4])) {
+    throw syntaxError(`Invalid date "${value}", expected for example updated:>2026-01-01`, start, end);
+  }
+
+  return { type: 'updated', operator: (match[1] || '=') as DateOperator, date, negated };
+}
+
+function syntaxError(message: string, start: number, end: number): WikiError {
+  const details: SearchQueryErrorDetails = { start, end };
+  return new WikiError(ErrorCodes.INVALID_SEARCH_QUERY, message, details);
+}
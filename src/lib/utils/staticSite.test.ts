@@ -0,0 +1,98 @@
+/**
+ * Static Site Utilities Tests
+ * Tests for published page links, navigation and the search index
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSiteSearchIndex,
+  relativeSiteUrl,
+  renderSiteNavigation,
+  renderSitePage,
+  rewriteSiteLinks,
+  sitePageUrl
+} from './staticSite.js';
+import type { PageNode } from '../types/index.js';
+
+const FILE_URL = 'https://bucket.s3.ap-northeast-1.amazonaws.com/files%2F1-logo.png';
+
+describe('Static Site Utilities', () => {
+  describe('sitePageUrl and relativeSiteUrl', () => {
+    it('should map page paths to relative HTML files', () => {
+      expect(sitePageUrl('docs/setup.md')).toBe('docs/setup.html');
+      expect(relativeSiteUrl('docs/setup.html', 'docs/api/index.html')).toBe('api/index.html');
+      expect(relativeSiteUrl('docs/api/index.html', 'index.html')).toBe('../../index.html');
+    });
+  });
+
+  describe('rewriteSiteLinks', () => {
+    it('should point wiki links and markdown links to the HTML pages', () => {
+      const html =
+        '<a href="/view?path=guides%2Fmy%20page.md#install" class="wiki-link">Install</a> ' +
+        '<a href="../index.md">Home</a> <a href="/docs/other.md?x=1&amp;y=2">Other</a>';
+
+      expect(rewriteSiteLinks(html, 'docs/setup.md', {})).toBe(
+        '<a href="../guides/my%20page.html#install" class="wiki-link">Install</a> ' +
+          '<a href="../index.html">Home</a> <a href="/docs/other.md?x=1&amp;y=2">Other</a>'
+      );
+    });
+
+    it('should point files to their copies and keep external links', () => {
+      const html = `<img src="${FILE_URL}" alt="Logo"> <a href="https://example.com/a.md">x</a> <a href="#top">top</a>`;
+
+      expect(rewriteSiteLinks(html, 'docs/setup.md', { [FILE_URL]: 'assets/files/1-logo.png' })).toBe(
+        '<img src="../assets/files/1-logo.png" alt="Logo"> <a href="https://example.com/a.md">x</a> <a href="#top">top</a>'
+      );
+    });
+
+    it('should turn links to missing pages into text', () => {
+      const html =
+        '<a href="/edit?path=docs%2Fnew.md&amp;title=New" class="wiki-link wiki-link-new" title="Create page: docs/new.md">New</a>';
+
+      expect(rewriteSiteLinks(html, 'docs/setup.md', {})).toBe('<span class="wiki-link wiki-link-new">New</span>');
+    });
+  });
+
+  describe('renderSiteNavigation', () => {
+    it('should render the hierarchy with the current page highlighted', () => {
+      const nodes: PageNode[] = [
+        { path: 'index.md', title: 'Home', isFolder: false },
+        {
+          path: 'docs',
+          title: 'docs',
+          isFolder: true,
+          children: [{ path: 'docs/setup.md', title: 'Setup & Install', isFolder: false }]
+        }
+      ];
+
+      expect(renderSiteNavigation(nodes, 'docs/setup.md')).toBe(
+        '<ul><li><a href="../index.html">Home</a></li>' +
+          '<li class="nav-folder"><span>docs</span><ul>' +
+          '<li><a href="setup.html" class="current" aria-current="page">Setup &amp; Install</a></li>' +
+          '</ul></li></ul>'
+      );
+    });
+  });
+
+  describe('renderSitePage', () => {
+    it('should link the shared assets relative to the page', () => {
+      const html = renderSitePage('Team Wiki', { path: 'docs/setup.md', title: 'Setup', html: '<h1>Setup</h1>', author: 'alice' }, '');
+
+      expect(html).toContain('<title>Setup - Team Wiki</title>');
+      expect(html).toContain('<link rel="stylesheet" href="../assets/site.css">');
+      expect(html).toContain('<body data-root="../">');
+      expect(html).toContain('<p class="page-details">作成者: alice</p>');
+      expect(html).toContain('<script src="../assets/search-index.js"></script>');
+    });
+  });
+
+  describe('createSiteSearchIndex', () => {
+    it('should define the index as a script with encoded URLs', () => {
+      const script = createSiteSearchIndex([{ url: 'docs/my page.html', title: 'My Page', text: 'Some\n\ntext' }]);
+
+      expect(script).toBe(
+        'window.MARKS3_SEARCH_INDEX = [{"url":"docs/my%20page.html","title":"My Page","text":"Some text"}];\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Static site utilities
+ * Standalone HTML pages, navigation and client-side search for published read-only snapshots
+ */
+
+import type { PageNode } from '../types/index.js';
+import { formatDate } from './formatting.js';
+
+/**
+ * Shared files inside the site archive, relative to its root
+ */
+export const SITE_PATHS = {
+  files: 'assets/files/',
+  stylesheet: 'assets/site.css',
+  script: 'assets/search.js',
+  searchIndex: 'assets/search-index.js'
+} as const;
+
+export interface SitePage {
+  path: string;
+  title: string;
+  // Rendered page body
+  html: string;
+  updatedAt?: Date;
+  author?: string;
+}
+
+export interface SiteSearchEntry {
+  // Page URL relative to the site root
+  url: string;
+  title: string;
+  text: string;
+}
+
+// Longest page text kept in the search index, to keep the index small enough to load up front
+const MAX_SEARCH_TEXT = 10000;
+const ATTRIBUTE_PATTERN = /\b(href|src)="([^"]*)"/g;
+const CREATE_LINK_PATTERN = /<a href="\/edit\?[^"]*"[^>]*>([\s\S]*?)<\/a>/g;
+const URL_SCHEME_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+
+/**
+ * URL of the HTML file a page is published as
+ */
+export function sitePageUrl(path: string): string {
+  return path.replace(/\.md$/i, '') + '.html';
+}
+
+/**
+ * Relative URL from one site file to another
+ */
+export function relativeSiteUrl(fromUrl: string, toUrl: string): string {
+  const from = fromUrl.split('/').slice(0, -1);
+  const to = toUrl.split('/');
+
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+}
+
+/**
+ * Make the links of a rendered page work in the static site: links to pages point to their
+ * HTML files, uploaded files point to their copies in the site, and links to pages that do
+ * not exist become plain text. `files` maps file URLs to site paths.
+ */
+export function rewriteSiteLinks(html: string, pagePath: string, files: Record<string, string>): string {
+  const fromUrl = sitePageUrl(pagePath);
+
+  return html
+    .replace(CREATE_LINK_PATTERN, '<span class="wiki-link wiki-link-new">$1</span>')
+    .replace(ATTRIBUTE_PATTERN, (match, attribute: string, escaped: string) => {
+      const value = unescapeAttribute(escaped);
+      const target = files[value] ?? sitePathForLink(value, pagePath);
+      if (target === null) return match;
+
+      const hashIndex = target.indexOf('#');
+      const path = hashIndex === -1 ? target : target.slice(0, hashIndex);
+      const hash = hashIndex === -1 ? '' : target.slice(hashIndex);
+      const url = path ? encodeSiteUrl(relativeSiteUrl(fromUrl, path)) : '';
+      return `${attribute}="${escapeAttribute(url + hash)}"`;
+    });
+}
+
+/**
+ * Navigation sidebar for the page hierarchy, with the current page highlighted
+ */
+export function renderSiteNavigation(nodes: PageNode[], currentPath: string): string {
+  const fromUrl = sitePageUrl(currentPath);
+
+  const renderNodes = (children: PageNode[]): string =>
+    `<ul>${children
+      .map(node => {
+        if (node.isFolder) {
+          const name = escapeHTML(node.path.split('/').pop()!);
+          return `<li class="nav-folder"><span>${name}</span>${renderNodes(node.children ?? [])}</li>`;
+        }
+        const current = node.path === currentPath ? ' class="current" aria-current="page"' : '';
+        const href = escapeAttribute(encodeSiteUrl(relativeSiteUrl(fromUrl, sitePageUrl(node.path))));
+        return `<li><a href="${href}"${current}>${escapeHTML(node.title)}</a></li>`;
+      })
+      .join('')}</ul>`;
+
+  return renderNodes(nodes);
+}
+
+/**
+ * Standalone HTML document for a page
+ */
+export function renderSitePage(siteTitle: string, page: SitePage, navigation: string): string {
+  const url = sitePageUrl(page.path);
+  const root = relativeSiteUrl(url, 'index.html').replace(/index\.html$/, '');
+  const asset = (path: string) => escapeAttribute(root + path);
+  const details = [
+    page.updatedAt ? `最終更新: ${escapeHTML(formatDate(page.updatedAt))}` : '',
+    page.author ? `作成者: ${escapeHTML(page.author)}` : ''
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(page.title === siteTitle ? siteTitle : `${page.title} - ${siteTitle}`)}</title>
+<link rel="stylesheet" href="${asset(SITE_PATHS.stylesheet)}">
+</head>
+<body data-root="${escapeAttribute(root)}">
+<aside class="site-sidebar">
+<a class="site-title" href="${asset('index.html')}">${escapeHTML(siteTitle)}</a>
+<input type="search" id="site-search" placeholder="ページを検索" aria-label="ページを検索">
+<ul id="site-search-results" hidden></ul>
+<nav class="site-nav">${navigation}</nav>
+</aside>
+<main class="site-content">
+${details.length > 0 ? `<p class="page-details">${details.join(' · ')}</p>\n` : ''}<article class="markdown-content">
+${page.html}
+</article>
+</main>
+<script src="${asset(SITE_PATHS.searchIndex)}"></script>
+<script src="${asset(SITE_PATHS.script)}"></script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Home page for sites without an `index.md` page, showing the site title and the navigation
+ */
+export function renderSiteHome(siteTitle: string, nodes: PageNode[]): string {
+  const page = { path: 'index.md', title: siteTitle, html: `<h1>${escapeHTML(siteTitle)}</h1>` };
+  return renderSitePage(siteTitle, page, renderSiteNavigation(nodes, page.path));
+}
+
+/**
+ * Search index script; loaded with a script tag so search also works from `file://` URLs
+ */
+export function createSiteSearchIndex(entries: SiteSearchEntry[]): string {
+  const index = entries.map(entry => ({
+    ...entry,
+    url: encodeSiteUrl(entry.url),
+    text: entry.text.replace(/\s+/g, ' ').slice(0, MAX_SEARCH_TEXT)
+  }));
+  return `window.MARKS3_SEARCH_INDEX = ${JSON.stringify(index)};\n`;
+}
+
+/**
+ * Client-side search over the index: every word of the query must appear in the title or text
+ */
+export const SITE_SEARCH_SCRIPT = `(function () {
+  var input = document.getElementById('site-search');
+  var results = document.getElementById('site-search-results');
+  var root = document.body.getAttribute('data-root') || '';
+  var index = window.MARKS3_SEARCH_INDEX || [];
+  if (!input || !results) return;
+
+  input.addEventListener('input', function () {
+    var words = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    results.innerHTML = '';
+    results.hidden = words.length === 0;
+    if (words.length === 0) return;
+
+    var matches = index.filter(function (entry) {
+      var haystack = (entry.title + ' ' + entry.text).toLowerCase();
+      return words.every(function (word) { return haystack.indexOf(word) !== -1; });
+    }).slice(0, 20);
+
+    if (matches.length === 0) {
+      var empty = document.createElement('li');
+      empty.className = 'no-results';
+      empty.textContent = '該当するページがありません';
+      results.appendChild(empty);
+      return;
+    }
+
+    matches.forEach(function (entry) {
+      var item = document.createElement('li');
+      var link = document.createElement('a');
+      link.href = root + entry.url;
+      link.textContent = entry.title;
+      item.appendChild(link);
+      results.appendChild(item);
+    });
+  });
+})();
+`;
+
+export const SITE_STYLESHEET = `* { box-sizing: border-box; }
+body { margin: 0; display: flex; min-height: 100vh; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Hiragino Sans', 'Noto Sans JP', sans-serif; color: #1f2937; line-height: 1.7; }
+a { color: #2563eb; }
+.site-sidebar { width: 280px; flex-shrink: 0; padding: 1.5rem 1rem; border-right: 1px solid #e5e7eb; background: #f9fafb; overflow-y: auto; max-height: 100vh; position: sticky; top: 0; }
+.site-title { display: block; margin-bottom: 1rem; font-size: 1.125rem; font-weight: 700; color: #111827; text-decoration: none; }
+#site-search { width: 100%; padding: 0.5rem 0.75rem; border: 1px solid #d1d5db; border-radius: 0.375rem; font-size: 0.875rem; }
+#site-search-results { margin: 0.5rem 0 0 0; padding: 0.5rem; list-style: none; background: white; border: 1px solid #e5e7eb; border-radius: 0.375rem; font-size: 0.875rem; }
+#site-search-results li { padding: 0.25rem 0; }
+#site-search-results .no-results { color: #6b7280; }
+.site-nav { margin-top: 1rem; font-size: 0.875rem; }
+.site-nav ul { margin: 0; padding-left: 1rem; list-style: none; }
+.site-nav > ul { padding-left: 0; }
+.site-nav li { padding: 0.125rem 0; }
+.site-nav a { color: #374151; text-decoration: none; }
+.site-nav a:hover { color: #2563eb; }
+.site-nav a.current { color: #2563eb; font-weight: 600; }
+.nav-folder > span { color: #6b7280; font-weight: 600; }
+.site-content { flex: 1; min-width: 0; max-width: 860px; padding: 2rem 3rem; }
+.page-details { margin: 0 0 1.5rem 0; color: #6b7280; font-size: 0.8125rem; }
+.markdown-content img { max-width: 100%; }
+.markdown-content pre { padding: 1rem; background: #f3f4f6; border-radius: 0.375rem; overflow-x: auto; }
+.markdown-content code { font-family: 'SFMono-Regular', Consolas, monospace; font-size: 0.875em; }
+.markdown-content table { border-collapse: collapse; }
+.markdown-content th, .markdown-content td { padding: 0.375rem 0.75rem; border: 1px solid #d1d5db; }
+.markdown-content blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 4px solid #d1d5db; color: #4b5563; }
+.wiki-link-new { color: #dc2626; }
+@media (max-width: 768px) {
+  body { display: block; }
+  .site-sidebar { width: auto; max-height: none; position: static; border-right: none; border-bottom: 1px solid #e5e7eb; }
+  .site-content { padding: 1.5rem 1rem; }
+}
+`;
+
+// Internal helpers
+
+/**
+ * Percent-encode the segments of a site URL, for page names with spaces or `#`
+ */
+function encodeSiteUrl(url: string): string {
+  return url.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Site path of a page link: the view route and `.md` links, relative or absolute.
+ * Null for external URLs, anchors and anything else that is kept as written.
+ */
+function sitePathForLink(value: string, pagePath: string): string | null {
+  if (URL_SCHEME_PATTERN.test(value) || value.startsWith('#')) {
+    return null;
+  }
+
+  const hashIndex = value.indexOf('#');
+  const hash = hashIndex === -1 ? '' : value.slice(hashIndex);
+  const withoutHash = hashIndex === -1 ? value : value.slice(0, hashIndex);
+
+  const route = /^\/view\?(.*)$/.exec(withoutHash);
+  if (route) {
+    const path = new URLSearchParams(route[1]).get('path');
+    return path ? sitePageUrl(path.replace(/^\/+/, '')) + hash : null;
+  }
+
+  if (!/\.md$/i.test(withoutHash)) {
+    return null;
+  }
+
+  let target = withoutHash;
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep malformed escapes as written
+  }
+
+  const folder = pagePath.includes('/') ? pagePath.slice(0, pagePath.lastIndexOf('/')) : '';
+  const absolute = target.startsWith('/') ? target.slice(1) : folder ? `${folder}/${target}` : target;
+  const segments: string[] = [];
+  for (const segment of absolute.split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return sitePageUrl(segments.join('/')) + hash;
+}
+
+function unescapeAttribute(value: string): string {
+  return value.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function escapeHTML(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,117 @@
+/**
+ * Page Template Utilities Tests
+ * Tests for template settings, placeholders and folder bindings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFrontMatter } from './frontMatter.js';
+import { fillPlaceholders, findFolderTemplate, parseTemplate, renderTemplate } from './templates.js';
+
+const MEETING = [
+  '---',
+  'template:',
+  '  name: Meeting notes',
+  '  description: Agenda and action items',
+  '  folders: [/meetings/]',
+  'tags: [meeting]',
+  '---',
+  '',
+  '# {{title}}',
+  '',
+  'Date: {{ date }} {{time}}, notes by {{author}}. {{unknown}}',
+  ''
+].join('\n');
+
+const variables = { title: 'Weekly Sync', author: 'alice', date: new Date(2026, 2, 5, 9, 30) };
+
+describe('Page Template Utilities', () => {
+  describe('parseTemplate', () => {
+    it('should read the template settings', () => {
+      expect(parseTemplate('meeting', MEETING)).toEqual({
+        id: 'meeting',
+        name: 'Meeting notes',
+        description: 'Agenda and action items',
+        folders: ['meetings'],
+        content: MEETING
+      });
+    });
+
+    it('should fall back to the id without settings', () => {
+      expect(parseTemplate('adr', '# ADR')).toMatchObject({ name: 'adr', folders: [] });
+    });
+  });
+
+  describe('fillPlaceholders', () => {
+    it('should replace known placeholders and keep unknown ones', () => {
+      expect(fillPlaceholders('{{date}} {{ time }} {{author}} {{other}}', variables)).toBe(
+        '2026-03-05 09:30 alice {{other}}'
+      );
+    });
+
+    it('should keep placeholders named after object properties', () => {
+      expect(fillPlaceholders('{{constructor}} {{toString}}', variables)).toBe('{{constructor}} {{toString}}');
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should fill placeholders and record the template on the page', () => {
+      expect(renderTemplate(parseTemplate('meeting', MEETING), variables)).toBe(
+        [
+          '---',
+          'template: meeting',
+          'tags: [meeting]',
+          '---',
+          '',
+          '# Weekly Sync',
+          '',
+          'Date: 2026-03-05 09:30, notes by alice. {{unknown}}',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should quote values filled into the front matter', () => {
+      const content = [
+        '---',
+        'template:',
+        '  name: Note',
+        'title: {{title}}',
+        'tags: [note, "{{author}}"]',
+        'description: {{unknown}}',
+        '---',
+        '',
+        '# {{title}}',
+        ''
+      ].join('\n');
+      const template = parseTemplate('note', content);
+      const page = parseFrontMatter(renderTemplate(template, { ...variables, title: 'Foo: bar' }));
+
+      expect(template.name).toBe('Note');
+      expect(page.error).toBeNull();
+      expect(page.frontMatter).toMatchObject({
+        title: 'Foo: bar',
+        tags: ['note', 'alice'],
+        description: '{{unknown}}',
+        template: 'note'
+      });
+      expect(page.body).toBe('# Foo: bar\n');
+    });
+  });
+
+  describe('findFolderTemplate', () => {
+    const templates = [
+      parseTemplate('meeting', MEETING),
+      { ...parseTemplate('retro', '# Retro'), folders: ['meetings/retros'] }
+    ];
+
+    it('should prefer the deepest bound folder', () => {
+      expect(findFolderTemplate(templates, 'meetings/2026/sync.md')?.id).toBe('meeting');
+      expect(findFolderTemplate(templates, 'meetings/retros/q1.md')?.id).toBe('retro');
+    });
+
+    it('should return null outside bound folders', () => {
+      expect(findFolderTemplate(templates, 'meetings.md')).toBeNull();
+      expect(findFolderTemplate(templates, 'docs/meetings/a.md')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Page template utilities
+ * Parsing of templates stored under `templates/` and creation of page content from them
+ */
+
+import type { PageTemplate } from '../types/index.js';
+import { parseFrontMatter, updateFrontMatterBlock, type FrontMatter } from './frontMatter.js';
+
+/**
+ * Values for the {{placeholders}} of a template
+ */
+export interface TemplateVariables {
+  title: string;
+  author: string;
+  date: Date;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+// Stands in for a placeholder while the front matter is parsed as YAML
+const PLACEHOLDER_TOKEN_PATTERN = /__template_placeholder_(\d+)__/g;
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Read a template and its settings.
+ * Settings live in a `template` map in the front matter:
+ *
+ *   template:
+ *     name: Meeting notes
+ *     description: Agenda, attendees and action items
+ *     folders: [meetings]
+ */
+export function parseTemplate(id: string, content: string): PageTemplate {
+  const { text, placeholders } = protectPlaceholders(content);
+  const data = mapStrings(parseFrontMatter(text).data, value => restorePlaceholders(value, placeholders));
+  const settings = isRecord(data) && isRecord(data.template) ? data.template : {};
+
+  return {
+    id,
+    name: toText(settings.name) || id,
+    description: toText(settings.description),
+    folders: toList(settings.folders).map(normalizeFolder).filter(Boolean),
+    content
+  };
+}
+
+/**
+ * Whether an id can be used as a template file name
+ */
+export function isValidTemplateId(id: string): boolean {
+  return TEMPLATE_ID_PATTERN.test(id);
+}
+
+/**
+ * Content of a new page created from a template.
+ * Placeholders are filled in and the template settings are replaced by
+ * a `template` property naming the template the page was created from.
+ * Front matter values are filled in after parsing, so they are quoted as YAML needs.
+ */
+export function renderTemplate(template: PageTemplate, variables: TemplateVariables): string {
+  const { text, placeholders } = protectPlaceholders(template.content);
+  const { frontMatter, block, body } = parseFrontMatter(text);
+  const fill = (value: string) => fillPlaceholders(restorePlaceholders(value, placeholders), variables);
+  const pageFrontMatter = mapStrings({ ...frontMatter, template: template.id }, fill) as FrontMatter;
+
+  return updateFrontMatterBlock(block, pageFrontMatter) + fill(body);
+}
+
+/**
+ * Replace {{title}}, {{author}}, {{date}} and {{time}}; unknown placeholders are kept
+ */
+export function fillPlaceholders(text: string, variables: TemplateVariables): string {
+  const values: Record<string, string> = {
+    title: variables.title,
+    author: variables.author,
+    date: formatLocalDate(variables.date),
+    time: `${pad(variables.date.getHours())}:${pad(variables.date.getMinutes())}`
+  };
+
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : placeholder
+  );
+}
+
+/**
+ * Template bound to the folder of a new page, preferring the deepest bound folder
+ */
+export function findFolderTemplate(templates: PageTemplate[], path: string): PageTemplate | null {
+  const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  let best: PageTemplate | null = null;
+  let bestDepth = -1;
+
+  for (const template of templates) {
+    for (const bound of template.folders) {
+      const matches = folder === bound || folder.startsWith(`${bound}/`);
+      const depth = bound.split('/').length;
+      if (matches && depth > bestDepth) {
+        best = template;
+        bestDepth = depth;
+      }
+    }
+  }
+
+  return best;
+}
+
+// Internal helpers
+
+/**
+ * Swap placeholders for plain tokens, so front matter like `title: {{title}}` parses as YAML
+ */
+function protectPlaceholders(text: string): { text: string; placeholders: string[] } {
+  const placeholders: string[] = [];
+  const protectedText = text.replace(PLACEHOLDER_PATTERN, placeholder => {
+    placeholders.push(placeholder);
+    return `__template_placeholder_${placeholders.length - 1}__`;
+  });
+  return { text: protectedText, placeholders };
+}
+
+function restorePlaceholders(text: string, placeholders: string[]): string {
+  return text.replace(PLACEHOLDER_TOKEN_PATTERN, (token, index: string) => placeholders[Number(index)] ?? token);
+}
+
+/**
+ * Apply `map` to every string in a parsed YAML value
+ */
+function mapStrings(value: unknown, map: (text: string) => string): unknown {
+  if (typeof value === 'string') {
+    return map(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, map));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined || typeof value === 'object') {
+    return undefined;
+  }
+  return String(value).trim() || undefined;
+}
+
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return items.map(toText).filter((item): item is string => !!item);
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.replace(/^\/+|\/+$/g, '');
+}
+
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
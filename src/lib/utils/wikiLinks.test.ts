@@ -0,0 +1,133 @@
+/**
+ * Wiki Link Utilities Tests
+ * Tests for parsing and resolving [[Page]] links
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findPageByAlias,
+  parseWikiLinks,
+  parseWikiLinkText,
+  resolveWikiLinkTarget,
+  wikiLinkToPath
+} from './wikiLinks.js';
+import type { WikiPageMeta } from '../types/index.js';
+
+function meta(path: string, title: string): WikiPageMeta {
+  return {
+    path,
+    title,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    author: 'test'
+  };
+}
+
+const pages: WikiPageMeta[] = [
+  meta('index.md', 'Welcome'),
+  meta('getting-started.md', 'Getting Started'),
+  meta('docs/setup.md', 'Setup Guide'),
+  meta('docs/index.md', 'Documentation'),
+  meta('archive/setup.md', 'Old Setup')
+];
+
+describe('Wiki Link Utilities', () => {
+  describe('parseWikiLinkText', () => {
+    it('should parse target, label and anchor', () => {
+      expect(parseWikiLinkText('Page')).toEqual({ target: 'Page', label: 'Page', anchor: undefined });
+      expect(parseWikiLinkText('docs/setup|Setup')).toEqual({
+        target: 'docs/setup',
+        label: 'Setup',
+        anchor: undefined
+      });
+      expect(parseWikiLinkText('Page#Install')).toEqual({
+        target: 'Page',
+        label: 'Page#Install',
+        anchor: 'Install'
+      });
+    });
+
+    it('should reject empty targets', () => {
+      expect(parseWikiLinkText('  ')).toBeNull();
+      expect(parseWikiLinkText('|label')).toBeNull();
+    });
+  });
+
+  describe('parseWikiLinks', () => {
+    it('should find all links with their positions', () => {
+      const links = parseWikiLinks('See [[Getting Started]] and [[docs/setup|the guide]].');
+
+      expect(links.map(l => [l.target, l.label, l.index])).toEqual([
+        ['Getting Started', 'Getting Started', 4],
+        ['docs/setup', 'the guide', 28]
+      ]);
+      expect(links[1].raw).toBe('[[docs/setup|the guide]]');
+    });
+
+    it('should ignore single brackets and line breaks', () => {
+      expect(parseWikiLinks('[not a link] [[broken\nlink]]')).toEqual([]);
+    });
+  });
+
+  describe('resolveWikiLinkTarget', () => {
+    it('should resolve exact paths with or without extension', () => {
+      expect(resolveWikiLinkTarget('docs/setup', pages)).toBe('docs/setup.md');
+      expect(resolveWikiLinkTarget('docs/setup.md', pages)).toBe('docs/setup.md');
+      expect(resolveWikiLinkTarget('/index', pages, 'docs/setup.md')).toBe('index.md');
+    });
+
+    it('should prefer pages in the same folder as the linking page', () => {
+      expect(resolveWikiLinkTarget('index', pages, 'docs/setup.md')).toBe('docs/index.md');
+      expect(resolveWikiLinkTarget('setup', pages, 'archive/other.md')).toBe('archive/setup.md');
+    });
+
+    it('should resolve slugified names and titles', () => {
+      expect(resolveWikiLinkTarget('Getting Started', pages)).toBe('getting-started.md');
+      expect(resolveWikiLinkTarget('setup guide', pages)).toBe('docs/setup.md');
+    });
+
+    it('should fall back to the shortest path with a matching file name', () => {
+      expect(resolveWikiLinkTarget('Setup', pages, 'notes.md')).toBe('docs/setup.md');
+    });
+
+    it('should return null for unknown pages', () => {
+      expect(resolveWikiLinkTarget('Missing Page', pages)).toBeNull();
+      expect(resolveWikiLinkTarget('other/setup', pages)).toBeNull();
+    });
+  });
+
+  describe('findPageByAlias', () => {
+    const aliased: WikiPageMeta[] = [
+      ...pages,
+      { ...meta('guides/install.md', 'Installation'), aliases: ['Setup Howto', 'docs/old-install'] }
+    ];
+
+    it('should match name aliases loosely and path aliases exactly', () => {
+      expect(findPageByAlias('setup-howto', aliased)).toBe('guides/install.md');
+      expect(findPageByAlias('/docs/old-install.md', aliased)).toBe('guides/install.md');
+      expect(findPageByAlias('old-install', aliased)).toBeNull();
+    });
+
+    it('should be used by the resolver after titles', () => {
+      expect(resolveWikiLinkTarget('Setup Howto', aliased)).toBe('guides/install.md');
+      expect(resolveWikiLinkTarget('docs/old-install', aliased)).toBe('guides/install.md');
+      expect(resolveWikiLinkTarget('Setup Guide', aliased)).toBe('docs/setup.md');
+    });
+  });
+
+  describe('wikiLinkToPath', () => {
+    it('should build slugified paths next to the linking page', () => {
+      expect(wikiLinkToPath('New Page')).toBe('new-page.md');
+      expect(wikiLinkToPath('New Page', 'docs/setup.md')).toBe('docs/new-page.md');
+    });
+
+    it('should keep explicit folders and extensions', () => {
+      expect(wikiLinkToPath('guides/First Steps', 'docs/setup.md')).toBe('guides/first-steps.md');
+      expect(wikiLinkToPath('notes/todo.md')).toBe('notes/todo.md');
+    });
+
+    it('should keep non-ASCII names', () => {
+      expect(wikiLinkToPath('会議 メモ')).toBe('会議-メモ.md');
+    });
+  });
+});
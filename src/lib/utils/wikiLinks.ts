@@ -0,0 +1,192 @@
+/**
+ * Wiki link utilities
+ * Parsing and resolution of [[Page]] and [[folder/page|label]] links
+ */
+
+import type { WikiPageMeta } from '../types/index.js';
+
+export interface WikiLink {
+  // Full source text including the brackets
+  raw: string;
+  target: string;
+  label: string;
+  anchor?: string;
+  index: number;
+}
+
+export type WikiLinkParts = Omit<WikiLink, 'raw' | 'index'>;
+
+/**
+ * Maps a link target to an existing page path, or null when no page matches.
+ * `fromPath` is the page containing the link, used to prefer pages in the same folder.
+ */
+export type WikiLinkResolver = (target: string, fromPath?: string) => string | null;
+
+const WIKI_LINK_PATTERN = /\[\[([^\[\]\n|]+)(?:\|([^\[\]\n]+))?\]\]/g;
+
+/**
+ * Split the inner text of a wiki link into target, anchor and label
+ */
+export function parseWikiLinkText(text: string): WikiLinkParts | null {
+  const separator = text.indexOf('|');
+  const rawTarget = (separator === -1 ? text : text.slice(0, separator)).trim();
+  const rawLabel = separator === -1 ? '' : text.slice(separator + 1).trim();
+
+  const hash = rawTarget.indexOf('#');
+  const target = (hash === -1 ? rawTarget : rawTarget.slice(0, hash)).trim();
+  const anchor = hash === -1 ? undefined : rawTarget.slice(hash + 1).trim() || undefined;
+
+  if (!target) {
+    return null;
+  }
+
+  return {
+    target,
+    label: rawLabel || (anchor ? `${target}#${anchor}` : target),
+    anchor
+  };
+}
+
+/**
+ * Find all wiki links in markdown content
+ */
+export function parseWikiLinks(content: string): WikiLink[] {
+  const links: WikiLink[] = [];
+
+  for (const match of content.matchAll(WIKI_LINK_PATTERN)) {
+    const parsed = parseWikiLinkText(match[2] !== undefined ? `${match[1]}|${match[2]}` : match[1]);
+    if (parsed) {
+      links.push({ ...parsed, raw: match[0], index: match.index ?? 0 });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Resolve a link target against the page list.
+ * Tries, in order: a page in the same folder, an exact path, the slugified path,
+ * a page title, a page alias, and finally a page with the same file name anywhere in the wiki.
+ * Targets with a folder only match paths and path aliases.
+ */
+export function resolveWikiLinkTarget(
+  target: string,
+  pages: WikiPageMeta[],
+  fromPath?: string
+): string | null {
+  const normalized = target.trim().replace(/^\/+/, '');
+  if (!normalized) return null;
+
+  const byPath = new Map(pages.map(page => [page.path.toLowerCase(), page.path]));
+  const withExtension = ensureExtension(normalized);
+  const folder = target.startsWith('/') ? '' : folderOf(fromPath);
+
+  const candidates = [
+    folder ? `${folder}/${withExtension}` : null,
+    withExtension,
+    folder ? wikiLinkToPath(normalized, fromPath) : null,
+    wikiLinkToPath(normalized)
+  ];
+
+  for (const candidate of candidates) {
+    const match = candidate && byPath.get(candidate.toLowerCase());
+    if (match) return match;
+  }
+
+  // Titles and bare file names only apply to links without a folder
+  if (normalized.includes('/')) return findPageByAlias(normalized, pages);
+
+  const key = comparableName(normalized);
+  const byTitle = pages.find(page => comparableName(page.title) === key);
+  if (byTitle) return byTitle.path;
+
+  const byAlias = findPageByAlias(normalized, pages);
+  if (byAlias) return byAlias;
+
+  const byName = pages
+    .filter(page => comparableName(baseName(page.path)) === key)
+    .sort((a, b) => a.path.length - b.path.length);
+
+  return byName[0]?.path ?? null;
+}
+
+/**
+ * Find the page listing `target` among its aliases.
+ * Aliases with a folder, like `guides/old-name`, are compared as paths so old URLs keep working;
+ * other aliases are compared as names.
+ */
+export function findPageByAlias(target: string, pages: WikiPageMeta[]): string | null {
+  const key = aliasKey(target);
+  if (!key) return null;
+
+  const match = pages.find(page => page.aliases?.some(alias => aliasKey(alias) === key));
+  return match?.path ?? null;
+}
+
+/**
+ * Build the path a link target would be created at.
+ * Targets without a folder are created next to the linking page.
+ */
+export function wikiLinkToPath(target: string, fromPath?: string): string {
+  const trimmed = target.trim();
+  const absolute = trimmed.startsWith('/') || trimmed.includes('/');
+  const segments = trimmed.split('/').filter(Boolean);
+  const name = segments.pop() || '';
+
+  const fileName = /\.md$/i.test(name) ? name : `${slugify(name)}.md`;
+  const folder = absolute ? segments.join('/') : folderOf(fromPath);
+
+  return folder ? `${folder}/${fileName}` : fileName;
+}
+
+/**
+ * URL of the read-only view for a resolved link
+ */
+export function wikiLinkHref(path: string, anchor?: string): string {
+  return `/view?path=${encodeURIComponent(path)}${anchor ? `#${encodeURIComponent(anchor)}` : ''}`;
+}
+
+/**
+ * URL that opens the editor to create the page an unresolved link points to
+ */
+export function wikiLinkCreateHref(path: string, title: string): string {
+  return `/edit?path=${encodeURIComponent(path)}&title=${encodeURIComponent(title)}`;
+}
+
+// Internal helpers
+
+function ensureExtension(path: string): string {
+  return /\.md$/i.test(path) ? path : `${path}.md`;
+}
+
+function folderOf(path?: string): string {
+  if (!path) return '';
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop()!.replace(/\.md$/i, '');
+}
+
+function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-');
+  return slug || 'untitled';
+}
+
+function aliasKey(alias: string): string {
+  const trimmed = alias.trim().replace(/^\/+/, '').replace(/\.md$/i, '');
+  return trimmed.includes('/') ? trimmed.toLowerCase() : comparableName(trimmed);
+}
+
+/**
+ * Loose comparison key: case-insensitive, treating spaces, hyphens and underscores alike
+ */
+function comparableName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
@@ -244,9 +244,11 @@ resource "aws_iam_role_policy" "authenticated_policy" {
         Effect = "Allow"
         Action = [
           "s3:GetObject",
+          "s3:GetObjectVersion",
           "s3:PutObject",
           "s3:DeleteObject",
           "s3:ListBucket",
+          "s3:ListBucketVersions",
           "s3:GetBucketLocation"
         ]
         Resource = [